@@ -0,0 +1,248 @@
+import { IndexedDBBackend, MemoryBackend, StorageBackend, WebStorageBackend } from "../scripts/backend";
+import { generateHash } from "../scripts/crypto";
+import { QuotaExceededError, StoreBlockedError } from "../scripts/errors";
+import { EncryptStorage } from "../scripts/storage";
+import { isSameBytes } from "../scripts/storage/storage.utils";
+
+const BACKENDS: [string, () => StorageBackend][] = [
+  ['localStorage', () => new WebStorageBackend(localStorage, 'any-db', 'any-store')],
+  ['memory', () => new MemoryBackend('any-db', 'any-store')]
+];
+
+BACKENDS.forEach(([type, create]) => describe(`${type} backend`, () => {
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    backend = create();
+  });
+
+  afterEach(async () => {
+    await backend.destroy();
+  });
+
+  it('should keep binaries inside the records', async () => {
+    const key = await generateHash('any key');
+    await backend.put(key, { iv: new Uint8Array([1, 2, 3]), ciphertext: new Uint8Array([4, 5]).buffer });
+
+    const record = await backend.get(key) as { iv: Uint8Array, ciphertext: ArrayBuffer };
+
+    expect(record.iv).toEqual(new Uint8Array([1, 2, 3]));
+    expect(new Uint8Array(record.ciphertext)).toEqual(new Uint8Array([4, 5]));
+  });
+
+  it('should iterate the records page by page', async () => {
+    const keys = await Promise.all(Array.from({ length: 5 }, (_, index) => generateHash(`key ${index}`)));
+    await Promise.all(keys.map((key, index) => backend.put(key, index)));
+
+    const first = await backend.iterate(undefined, 3);
+    const second = await backend.iterate(first[first.length - 1][0], 3);
+
+    expect(first.length).toBe(3);
+    expect(second.length).toBe(2);
+    expect([...first, ...second].map(([, value]) => value).sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should iterate only the records whose key passes the filter', async () => {
+    const keys = await Promise.all(Array.from({ length: 5 }, (_, index) => generateHash(`key ${index}`)));
+    await Promise.all(keys.map((key, index) => backend.put(key, index)));
+    const even = (key: ArrayBuffer): boolean => keys.findIndex((other) => isSameBytes(other, key)) % 2 === 0;
+
+    const first = await backend.iterate(undefined, 2, even);
+    const second = await backend.iterate(first[first.length - 1][0], 2, even);
+
+    expect(first.length).toBe(2);
+    expect(second.length).toBe(1);
+    expect([...first, ...second].map(([, value]) => value).sort()).toEqual([0, 2, 4]);
+  });
+
+  it('should not save any write of a failed transaction', async () => {
+    const key = await generateHash('any key');
+
+    await expectAsync(backend.transaction('readwrite', async (tx) => {
+      await tx.put(key, 'any value');
+
+      throw new Error('any error');
+    })).toBeRejected();
+
+    expect(await backend.get(key)).toBeUndefined();
+  });
+
+  it('should read the writes of the transaction', async () => {
+    const key = await generateHash('any key');
+
+    const value = await backend.transaction('readwrite', async (tx) => {
+      await tx.put(key, 'any value');
+
+      return tx.get(key);
+    });
+
+    expect(value).toBe('any value');
+  });
+
+  it('should clear the records inside a transaction', async () => {
+    const [kept, cleared] = await Promise.all([generateHash('kept key'), generateHash('cleared key')]);
+    await Promise.all([backend.put(kept, 'kept value'), backend.put(cleared, 'cleared value')]);
+
+    await expectAsync(backend.transaction('readwrite', async (tx) => {
+      await tx.clear();
+
+      throw new Error('any error');
+    })).toBeRejected();
+
+    expect(await backend.get(cleared)).toBe('cleared value');
+
+    const read = await backend.transaction('readwrite', async (tx) => {
+      const value = await tx.get(kept);
+      await tx.clear();
+      await tx.put(kept, value);
+
+      return tx.get(cleared);
+    });
+
+    expect(read).toBeUndefined();
+    expect(await backend.get(kept)).toBe('kept value');
+    expect(await backend.get(cleared)).toBeUndefined();
+  });
+
+  it('should delete only the records of its database', async () => {
+    const other = type === 'memory'
+      ? new MemoryBackend('other-db', 'any-store')
+      : new WebStorageBackend(localStorage, 'other-db', 'any-store');
+    const key = await generateHash('any key');
+    await Promise.all([backend.put(key, 'any value'), other.put(key, 'other value')]);
+
+    await backend.destroy();
+
+    expect(await backend.get(key)).toBeUndefined();
+    expect(await other.get(key)).toBe('other value');
+    await other.destroy();
+  });
+
+  it('should list and drop the stores of its database', async () => {
+    const other = type === 'memory'
+      ? new MemoryBackend('any-db', 'other-store')
+      : new WebStorageBackend(localStorage, 'any-db', 'other-store');
+    const key = await generateHash('any key');
+    await Promise.all([backend.put(key, 'any value'), other.put(key, 'other value')]);
+
+    expect((await backend.listStores()).sort()).toEqual(['any-store', 'other-store']);
+
+    await backend.dropStore('other-store');
+
+    expect(await backend.listStores()).toEqual(['any-store']);
+    expect(await backend.get(key)).toBe('any value');
+    expect(await other.get(key)).toBeUndefined();
+  });
+}));
+
+describe('Web Storage backend', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should save the records as strings', async () => {
+    const backend = new WebStorageBackend(localStorage, 'any-db', 'any-store');
+    await backend.put(await generateHash('any key'), new Uint8Array([1, 2, 3]));
+
+    const item = localStorage.key(0) as string;
+
+    expect(item.startsWith('encrypt-storage:any-db:any-store:')).toBeTrue();
+    expect(localStorage.getItem(item)).toContain('TypedArray');
+  });
+
+  it('should report a full storage as a quota error', async () => {
+    const full = new DOMException('any message', 'QuotaExceededError');
+    const storage = jasmine.createSpyObj<Storage>('storage', { getItem: null, setItem: undefined, removeItem: undefined });
+    storage.setItem.and.throwError(full);
+    const backend = new WebStorageBackend(storage, 'any-db', 'any-store');
+
+    const error = await backend.put(await generateHash('any key'), 'any value').catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.code).toEqual('QUOTA_EXCEEDED');
+    expect(error.cause).toBe(full);
+  });
+});
+
+describe('IndexedDB backend', () => {
+  // a connection that stays open on `versionchange`, like one of another library
+  const openBlockingConnection = (dbName: string): Promise<IDBDatabase> => new Promise((resolve) => {
+    const request = indexedDB.open(dbName);
+    request.onsuccess = () => resolve(request.result);
+  });
+
+  const deleteDatabase = (dbName: string): Promise<unknown> => new Promise((resolve) => {
+    indexedDB.deleteDatabase(dbName).onsuccess = resolve;
+  });
+
+  it('should reject an upgrade blocked by another connection', async () => {
+    const blocking = await openBlockingConnection('blocked-db');
+
+    await expectAsync(IndexedDBBackend.open('blocked-db', 'any-store')).toBeRejectedWithError(StoreBlockedError);
+
+    blocking.close();
+    const backend = await IndexedDBBackend.open('blocked-db', 'any-store');
+    await backend.put(await generateHash('any key'), 'any value');
+
+    expect(await backend.get(await generateHash('any key'))).toBe('any value');
+    await backend.destroy();
+  });
+
+  it('should reject a deletion blocked by another connection', async () => {
+    const backend = await IndexedDBBackend.open('blocked-db', 'any-store');
+    const blocking = await openBlockingConnection('blocked-db');
+
+    await expectAsync(backend.destroy()).toBeRejectedWithError(StoreBlockedError);
+
+    blocking.close();
+    await deleteDatabase('blocked-db');
+
+    expect(await IndexedDBBackend.exists('blocked-db')).toBeFalse();
+  });
+
+  it('should iterate only the records whose key passes the filter', async () => {
+    const backend = await IndexedDBBackend.open('filtered-db', 'any-store');
+    const keys = await Promise.all(Array.from({ length: 5 }, (_, index) => generateHash(`key ${index}`)));
+    await Promise.all(keys.map((key, index) => backend.put(key, index)));
+    const even = (key: ArrayBuffer): boolean => keys.findIndex((other) => isSameBytes(other, key)) % 2 === 0;
+
+    const first = await backend.iterate(undefined, 2, even);
+    const second = await backend.iterate(first[first.length - 1][0], 2, even);
+
+    expect(first.length).toBe(2);
+    expect(second.length).toBe(1);
+    expect([...first, ...second].map(([, value]) => value).sort()).toEqual([0, 2, 4]);
+    await backend.destroy();
+  });
+
+  it('should clear the records inside a transaction', async () => {
+    const backend = await IndexedDBBackend.open('cleared-db', 'any-store');
+    const [kept, cleared] = await Promise.all([generateHash('kept key'), generateHash('cleared key')]);
+    await Promise.all([backend.put(kept, 'kept value'), backend.put(cleared, 'cleared value')]);
+
+    await backend.transaction('readwrite', async (tx) => {
+      const value = await tx.get(kept);
+      await tx.clear();
+      await tx.put(kept, value);
+    });
+
+    expect(await backend.get(kept)).toBe('kept value');
+    expect(await backend.get(cleared)).toBeUndefined();
+    await backend.destroy();
+  });
+
+  it('should use the given IndexedDB implementation', async () => {
+    const open = jasmine.createSpy('open').and.callFake((name: string, version: number) => indexedDB.open(name, version));
+    const deleteDatabase = jasmine.createSpy('deleteDatabase').and.callFake((name: string) => indexedDB.deleteDatabase(name));
+    const databases = jasmine.createSpy('databases').and.callFake(() => indexedDB.databases());
+    const test = new EncryptStorage({ key: 'any key', db: 'injected-db', indexedDB: { open, deleteDatabase, databases } as unknown as IDBFactory });
+    await test.set('any key', 'any value');
+
+    expect(await test.get('any key')).toBe('any value');
+    expect(open).toHaveBeenCalled();
+
+    await test.deleteDB();
+
+    expect(deleteDatabase).toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,6 @@
-import { decrypt, deriveKey, encrypt, generateCryptoKey } from "../scripts/crypto";
-import { decode, generateNonce, generateRandomValues, generateSalt, getCryptoObject } from "../scripts/crypto/crypto.utils";
+import { decrypt, deriveKey, encrypt, generateCryptoKey, generateDataKey, unwrapKey, wrapKey } from "../scripts/crypto";
+import { decode, fromBase64, generateNonce, generateRandomValues, generateSalt, getCryptoObject, isCryptoKey, toBase64 } from "../scripts/crypto/crypto.utils";
+import { UnsupportedAlgorithmError } from "../scripts/errors";
 
 describe('Crypto Utils Tests', () => {
   beforeEach(() => {
@@ -15,6 +16,31 @@ describe('Crypto Utils Tests', () => {
     });
   });
 
+  describe('CryptoKey type guard', () => {
+    it('should tell crypto keys apart from raw keys', async () => {
+      const key = await generateCryptoKey({ raw: 'any key' });
+
+      expect(isCryptoKey(key)).toBeTrue();
+      expect(isCryptoKey('any key')).toBeFalse();
+      expect(isCryptoKey(new Uint8Array([1, 2, 3]))).toBeFalse();
+      expect(isCryptoKey({ type: 'secret', algorithm: {}, usages: [] })).toBeFalse();
+    });
+  });
+
+  describe('Base64 encoding', () => {
+    it('should encode and decode back the same bytes', () => {
+      const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+
+      expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+    });
+
+    it('should only encode the bytes of the given view', () => {
+      const view = new Uint8Array([1, 2, 3, 4]).subarray(1, 3);
+
+      expect(fromBase64(toBase64(view))).toEqual(new Uint8Array([2, 3]));
+    });
+  });
+
   describe('Generate Base Key', () => {
     it('should accept JWK', async () => {
       const jwkEcKey = {
@@ -142,6 +168,35 @@ describe('Crypto Utils Tests', () => {
         length: 256
       });
     });
+
+    it('should derive keys with HKDF from the info and salt', async () => {
+      const key = await generateCryptoKey({ raw: generateRandomValues(32), algorithm: 'HKDF' });
+      const salt = generateSalt();
+      const [encrypted, nonce] = await encrypt({ data: 'any value', key: await deriveKey({ key, info: 'any info', salt }) });
+
+      const decrypted = await decrypt({ data: encrypted, key: await deriveKey({ key, info: 'any info', salt }), nonceOrAlgorithm: nonce! });
+
+      expect(decode(decrypted)).toBe('any value');
+      await expectAsync(decrypt({ data: encrypted, key: await deriveKey({ key, info: 'other info', salt }), nonceOrAlgorithm: nonce! }))
+        .toBeRejected();
+      await expectAsync(decrypt({ data: encrypted, key: await deriveKey({ key, info: 'any info' }), nonceOrAlgorithm: nonce! }))
+        .toBeRejected();
+    });
+
+    it('should derive HKDF keys for other algorithms and usages', async () => {
+      const key = await generateCryptoKey({ raw: generateRandomValues(32), algorithm: 'HKDF' });
+      const cryptoKey = await deriveKey({
+        key,
+        info: new Uint8Array([1, 2, 3]),
+        hash: 'SHA-512',
+        algorithmParam: { name: 'HMAC', hash: 'SHA-256', length: 256 } as HmacImportParams,
+        keyUsages: ['sign']
+      });
+
+      expect(cryptoKey.algorithm.name).toBe('HMAC');
+      expect(cryptoKey.usages).toEqual(['sign']);
+      expect(cryptoKey.extractable).toBeFalse();
+    });
   });
 
   describe('Encryption data', () => {
@@ -243,6 +298,29 @@ describe('Crypto Utils Tests', () => {
       expect(orgData).toEqual(decode(decrypted));
     });
 
+    it('should decrypt the given value with the same additional data', async () => {
+      const key = await generateCryptoKey({ raw: 'raw data' });
+      const cryptoKey = await deriveKey({ key, saltOrDeriveAlgorithm: generateSalt() });
+      const additionalData = new TextEncoder().encode('any context');
+      const [crypted, nonce] = await encrypt({ data: 'raw data', key: cryptoKey, additionalData });
+
+      const decrypted = await decrypt({ data: crypted, key: cryptoKey, nonceOrAlgorithm: nonce as BufferSource, additionalData });
+
+      expect(decode(decrypted)).toEqual('raw data');
+    });
+
+    it('should not decrypt the given value with other additional data', async () => {
+      const key = await generateCryptoKey({ raw: 'raw data' });
+      const cryptoKey = await deriveKey({ key, saltOrDeriveAlgorithm: generateSalt() });
+      const [crypted, nonce] = await encrypt({ data: 'raw data', key: cryptoKey, additionalData: new TextEncoder().encode('any context') });
+
+      const withOther = decrypt({ data: crypted, key: cryptoKey, nonceOrAlgorithm: nonce as BufferSource, additionalData: new TextEncoder().encode('other context') });
+      const without = decrypt({ data: crypted, key: cryptoKey, nonceOrAlgorithm: nonce as BufferSource });
+
+      await expectAsync(withOther).toBeRejected();
+      await expectAsync(without).toBeRejected();
+    });
+
     it('should not decrypt the given value using incorrect nonce', async () => {
       const orgData = 'thisistextwith17l';
       const key = await generateCryptoKey({ raw: 'raw data' });
@@ -268,4 +346,55 @@ describe('Crypto Utils Tests', () => {
       await expectAsync(decryptOperator).toBeRejectedWithError();
     });
   });
+
+  describe('Wrapping keys', () => {
+    it('should generate an extractable AES-GCM data key by default', async () => {
+      const dataKey = await generateDataKey();
+
+      expect(dataKey.extractable).toBeTrue();
+      expect(dataKey.algorithm as AesKeyAlgorithm).toEqual({ name: 'AES-GCM', length: 256 });
+    });
+
+    it('should unwrap a wrapped key as a non-extractable key', async () => {
+      const key = await generateCryptoKey({ raw: 'any raw' });
+      const wrappingKey = await deriveKey({ key, saltOrDeriveAlgorithm: generateSalt(), keyUsages: ['wrapKey', 'unwrapKey'] });
+      const dataKey = await generateDataKey();
+      const [wrapped, nonce] = await wrapKey({ key: dataKey, wrappingKey });
+
+      const unwrapped = await unwrapKey({ data: wrapped, key: wrappingKey, nonceOrAlgorithm: nonce as BufferSource });
+      const [crypted, dataNonce] = await encrypt({ data: 'any data', key: dataKey });
+      const decrypted = await decrypt({ data: crypted, key: unwrapped, nonceOrAlgorithm: dataNonce as BufferSource });
+
+      expect(unwrapped.extractable).toBeFalse();
+      expect(decode(decrypted)).toEqual('any data');
+    });
+
+    it('should not unwrap a key with another wrapping key', async () => {
+      const key = await generateCryptoKey({ raw: 'any raw' });
+      const wrappingKey = await deriveKey({ key, saltOrDeriveAlgorithm: generateSalt(), keyUsages: ['wrapKey', 'unwrapKey'] });
+      const otherKey = await deriveKey({ key, saltOrDeriveAlgorithm: generateSalt(), keyUsages: ['wrapKey', 'unwrapKey'] });
+      const [wrapped, nonce] = await wrapKey({ key: await generateDataKey(), wrappingKey });
+
+      await expectAsync(unwrapKey({ data: wrapped, key: otherKey, nonceOrAlgorithm: nonce as BufferSource })).toBeRejected();
+    });
+  });
+
+  describe('Errors', () => {
+    it('should reject unsupported algorithms with their code and cause', async () => {
+      const error = await generateDataKey({ algorithm: { name: 'AES-ANY', length: 256 } }).catch(e => e);
+
+      expect(error).toBeInstanceOf(UnsupportedAlgorithmError);
+      expect(error.code).toEqual('UNSUPPORTED_ALGORITHM');
+      expect(error.cause.name).toEqual('NotSupportedError');
+    });
+
+    it('should keep the other WebCrypto errors as they are', async () => {
+      const key = await generateCryptoKey({ raw: 'any raw' });
+
+      const error = await encrypt({ data: 'any data', key }).catch(e => e);
+
+      expect(error).not.toBeInstanceOf(UnsupportedAlgorithmError);
+      expect(error.name).toEqual('InvalidAccessError');
+    });
+  });
 });
@@ -1,5 +1,47 @@
-import { decode, generateCryptoKey, generateHash } from "../scripts/crypto";
-import { AUTHENTICITY_ERROR_MESSAGE, EncryptStorage } from "../scripts/storage";
+import { DEFAULT_ITERATIONS, decode, decrypt, deriveKey, encrypt, generateCryptoKey, generateHash, generateHmac, generateRandomValues, getCryptoObject, toBase64, toHex } from "../scripts/crypto";
+import {
+  AUTHENTICITY_ERROR_MESSAGE,
+  CHUNK_SIZE_ERROR_MESSAGE,
+  DEVICE_BACKUP_ERROR_MESSAGE,
+  ENTRY_RECORD_VERSION,
+  EncryptStorage,
+  INVALID_BACKUP_ERROR_MESSAGE,
+  IChunkRecord,
+  IDataKeyRecord,
+  IBackupBundle,
+  IEntryRecord,
+  IStorageChange,
+  LIMIT_EXCEEDED_ERROR_MESSAGE,
+  IStoreMetadata,
+  LOCKED_ERROR_MESSAGE,
+  MISSING_DEVICE_KEY_ERROR_MESSAGE,
+  NOT_BINARY_ERROR_MESSAGE,
+  NOT_INDEXEDDB_ERROR_MESSAGE,
+  UNSUPPORTED_BACKUP_VERSION_ERROR_MESSAGE,
+  WRONG_KEY_ERROR_MESSAGE
+} from "../scripts/storage";
+import { COMPRESSION_UNAVAILABLE_ERROR_MESSAGE, getAdditionalData, parseRecord, stringifyRecord } from "../scripts/storage/storage.utils";
+import {
+  EncryptStorageError,
+  KeyNotExportableError,
+  MissingKeyError,
+  MissingNonceError,
+  QuotaExceededError,
+  StoreBlockedError,
+  StoreClosedError,
+  StoreLockedError,
+  TamperedRecordError,
+  UnsupportedAlgorithmError,
+  UnsupportedEnvironmentError,
+  UnsupportedFormatError,
+  WrongKeyError
+} from "../scripts/errors";
+import { FORMAT_VERSION, IMigration, UNSUPPORTED_FORMAT_ERROR_MESSAGE, migrateStore } from "../scripts/storage/storage.migrations";
+import { ChangeChannel, IChangeMessage } from "../scripts/storage/storage.channel";
+import { DEVICE_KEYS_DB, loadDeviceKey } from "../scripts/storage/storage.device";
+import { BackendType, IndexedDBBackend, StorageBackend, openBackend } from "../scripts/backend";
+
+const BACKENDS: BackendType[] = ['indexedDB', 'localStorage', 'sessionStorage', 'memory'];
 
 
 /**
@@ -22,6 +64,82 @@ const clear = (): Promise<any> => {
   });
 }
 
+/**
+ * Writes the entries the way stores created before data encryption keys and tagged values did:
+ * bare strings encrypted with the derived key, next to bare nonces.
+ */
+const writeLegacyStore = async (backend: BackendType, key: string, entries: [string, string][]): Promise<void> => {
+  const setup = new EncryptStorage({ backend, key });
+  const [store, baseKey, salt, iterations, dataKey] = await setup['_properties'];
+  await dataKey;
+  const cryptoKey = await deriveKey({ key: baseKey, saltOrDeriveAlgorithm: salt, iterationsOrAlgorithmParam: iterations });
+
+  await store.delete(await generateHash('o-data-key'));
+  await store.delete(await generateHash('o-key-verifier'));
+  await store.delete(await generateHash('o-metadata'));
+
+  for (const [ikey, value] of entries) {
+    const [encrypted, nonce] = await encrypt({ data: value, key: cryptoKey });
+    await store.put(await generateHash(ikey), encrypted);
+    await store.put(await generateHash(`${ikey}-nonce`), nonce);
+  }
+
+  await setup.close();
+};
+
+/**
+ * @returns A new instance opening a store written by `writeLegacyStore`.
+ */
+const createLegacyStore = async (backend: BackendType, key: string, entries: [string, string][]): Promise<EncryptStorage> => {
+  await writeLegacyStore(backend, key, entries);
+
+  return add(new EncryptStorage({ backend, key }));
+};
+
+/**
+ * Writes a store like `writeLegacyStore` whose 'tampered key' entry can't be decrypted, next to an 'any key' entry.
+ */
+const writeTamperedLegacyStore = async (backend: BackendType, key: string): Promise<void> => {
+  await writeLegacyStore(backend, key, [['any key', 'any value'], ['tampered key', 'any value']]);
+  const store = await openBackend(backend, await generateHash('default-db'), await generateHash('default-storage-name'));
+  await store.put(await generateHash('tampered key'), new Uint8Array(32).buffer);
+  await store.close();
+};
+
+/**
+ * Writes the entries the way stores of format version 1 did before the metadata record existed.
+ *
+ */
+const createFormatV1Store = async (backend: BackendType, key: string, entries: [string, string][]): Promise<void> => {
+  const setup = new EncryptStorage({ backend, key });
+  await setup.setMany(entries);
+  const [store] = await setup['_properties'];
+
+  await store.delete(await generateHash('o-metadata'));
+  await setup.close();
+};
+
+/**
+ * @returns The identifier of the entry record of the given key, the HMAC under the store's lookup key.
+ */
+const getLookupId = async (test: EncryptStorage, key: string): Promise<ArrayBuffer> => {
+  const [, , , , , lookupKey] = await test['_properties'];
+
+  return generateHmac({ data: key, key: (await lookupKey)! });
+};
+
+const isSameBuffer = (a: ArrayBuffer, b: ArrayBuffer): boolean => toBase64(a) === toBase64(b);
+
+const isChunkEntry = (entry: [ArrayBuffer, unknown]): entry is [ArrayBuffer, IChunkRecord] => {
+  const [, record] = entry;
+
+  return typeof record === 'object' && record !== null && 'blob' in record;
+};
+
+const getAllKeys = async (store: StorageBackend): Promise<ArrayBuffer[]> => {
+  return (await store.iterate()).map(([key]) => key);
+};
+
 export async function catchAsyncErrorMessage(promise: Promise<any>): Promise<string | undefined> {
   try {
     await promise;
@@ -30,7 +148,7 @@ export async function catchAsyncErrorMessage(promise: Promise<any>): Promise<str
   }
 }
 
-describe('EncryptStorage IDB tests', () => {
+const describeStorage = (backend: BackendType) => describe(`EncryptStorage ${backend} tests`, () => {
   afterEach(async () => {
     await clear();
   });
@@ -38,7 +156,7 @@ describe('EncryptStorage IDB tests', () => {
   describe('Creating Object Instance', () => {
     it('should not be able to save data without a crypto key', async () => {
       const init = async () => {
-        return new EncryptStorage({ key: undefined as any });
+        return new EncryptStorage({ backend, key: undefined as any });
       }
 
       expect(await catchAsyncErrorMessage(init())).toEqual("Key is required.");
@@ -47,34 +165,34 @@ describe('EncryptStorage IDB tests', () => {
 
   describe('Saving data', () => {
     it('should be able to save data with a raw crypto key', async () => {
-      const test = add(new EncryptStorage({ key: 'raw key' }));
+      const test = add(new EncryptStorage({ backend, key: 'raw key' }));
       await test.set('any key', 'any value');
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
 
       expect(allKeys.length >= 1).toBeTrue();
     });
 
     it('should be able to save data with a crypto key', async () => {
       const key = await generateCryptoKey({ raw: 'rawkey' });
-      const test = add(new EncryptStorage({ key }));
+      const test = add(new EncryptStorage({ backend, key }));
       await test.set('any key', 'any value');
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
 
       expect(allKeys.length >= 1).toBeTrue();
     });
 
     it('should not save the raw data', async () => {
-      const test = add(new EncryptStorage({ key: 'any key' }));
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
       const value = 'any value';
       await test.set('any key', value);
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
-      const values = await Promise.all(allKeys.map(k => db.get(dbStorageName, k)));
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
+      const values = await Promise.all(allKeys.map(k => store.get(k)));
 
       const result = values.some((v) => v === value);
 
@@ -82,20 +200,31 @@ describe('EncryptStorage IDB tests', () => {
     });
 
     it('should not save the raw key', async () => {
-      const test = add(new EncryptStorage({ key: 'any key' }));
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
       const ikey = 'any key';
       await test.set(ikey, 'any value');
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
-      const result = allKeys.some(k => k === ikey);
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
+      const result = allKeys.some(k => decode(k) === ikey);
 
       expect(result).toBeFalse();
     });
 
+    it('should keep a wrapped data encryption key next to the salt', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+
+      const [store] = await test['_properties'];
+      const record = await store.get(await generateHash('o-data-key')) as IDataKeyRecord;
+
+      expect(record.wrappedKey).toBeInstanceOf(ArrayBuffer);
+      expect(record.nonce).toBeInstanceOf(Uint8Array);
+    });
+
     it('should not use the raw db name', async () => {
       const dbName = 'dbName';
-      const test = add(new EncryptStorage({ key: 'any key' }));
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
       await test.set('any key', 'any value');
 
       const allDbs = await window.indexedDB.databases();
@@ -106,17 +235,17 @@ describe('EncryptStorage IDB tests', () => {
 
     it('should not use the raw table name', async () => {
       const tableName = 'storeName';
-      const test = add(new EncryptStorage({ key: 'any key' }));
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
       await test.set('any key', 'any value');
 
-      const [, dbStorageName] = await test['_properties'];
+      const dbStorageName = await test.getStoreName();
       expect(tableName === dbStorageName).toBeFalse();
     });
   });
 
   describe('Getting data', () => {
     it('should get the original value', async () => {
-      const test = add(new EncryptStorage({ key: 'any key' }));
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
       const ikey = 'any key';
       const value = 'any value';
       await test.set(ikey, value);
@@ -124,16 +253,34 @@ describe('EncryptStorage IDB tests', () => {
       expect(await test.get(ikey)).toEqual(value);
     });
 
+    it('should derive and unwrap the data key once, not on every call', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', iterations: 1000 }));
+      await test.set('any key', 'any value');
+      const subtle = getCryptoObject().subtle;
+      const deriveKey = spyOn(subtle, 'deriveKey').and.callThrough();
+      const unwrapKey = spyOn(subtle, 'unwrapKey').and.callThrough();
+
+      for (let i = 0; i < 5; i++) {
+        await test.get('any key');
+      }
+
+      expect(deriveKey).not.toHaveBeenCalled();
+      expect(unwrapKey).not.toHaveBeenCalled();
+
+      expect(await add(new EncryptStorage({ backend, key: 'any key', iterations: 1000 })).get('any key')).toBe('any value');
+      expect(deriveKey).toHaveBeenCalledTimes(1);
+    });
+
     it('should get same value in another instance with same key', async () => {
       const key = 'any';
-      const test1 = add(new EncryptStorage({ key }));
+      const test1 = add(new EncryptStorage({ backend, key }));
       const ikey = 'any key';
       const value = 'any value';
 
       await test1.set(ikey, value);
       const v1 = await test1.get(ikey);
 
-      const test2 = add(new EncryptStorage({ key }));
+      const test2 = add(new EncryptStorage({ backend, key }));
 
       await test2.set(ikey, value);
       const v2 = await test2.get(ikey);
@@ -147,12 +294,12 @@ describe('EncryptStorage IDB tests', () => {
     it('should get same value in another instance with same key and db name', async () => {
       const key = 'anykey';
       const dbName = 'anydb';
-      const test1 = add(new EncryptStorage({ key, db: dbName }));
+      const test1 = add(new EncryptStorage({ backend, key, db: dbName }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      const test2 = add(new EncryptStorage({ key, db: dbName }));
+      const test2 = add(new EncryptStorage({ backend, key, db: dbName }));
       await test2.set(ikey, value);
 
       expect(await test2.get(ikey)).toEqual(value);
@@ -162,12 +309,12 @@ describe('EncryptStorage IDB tests', () => {
       const key = 'anykey';
       const dbName = 'anydb';
       const tableName = 'anystore';
-      const test1 = add(new EncryptStorage({ key, db: dbName, name: tableName }));
+      const test1 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      const test2 = add(new EncryptStorage({ key, db: dbName, name: tableName }));
+      const test2 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName }));
       await test2.set(ikey, value);
 
       expect(await test2.get(ikey)).toEqual(value);
@@ -178,12 +325,12 @@ describe('EncryptStorage IDB tests', () => {
       const dbName = 'anydb';
       const tableName = 'anystore';
       const salt = new Uint8Array([1, 2, 3, 4]);
-      const test1 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt }));
+      const test1 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      const test2 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt }));
+      const test2 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt }));
 
       expect(await test2.get(ikey)).toEqual(value);
     });
@@ -194,51 +341,51 @@ describe('EncryptStorage IDB tests', () => {
       const tableName = 'anystore';
       const iterations = 100;
       const salt = new Uint8Array([1, 2, 3, 4]);
-      const test1 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt, iterations }));
+      const test1 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt, iterations }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      const test2 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt, iterations }));
+      const test2 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt, iterations }));
 
       expect(await test2.get(ikey)).toEqual(value);
     });
 
     it('should not get stored values from another databases with a same key', async () => {
       const key = 'anykey';
-      let test1 = add(new EncryptStorage({ key, db: 'db1' }));
+      let test1 = add(new EncryptStorage({ backend, key, db: 'db1' }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      test1 = add(new EncryptStorage({ key, db: 'db2' }));
+      test1 = add(new EncryptStorage({ backend, key, db: 'db2' }));
 
       expect(await test1.get(ikey)).toBeUndefined();
     });
 
     it('should not able to load data stored with a different key', async () => {
-      const test1 = add(new EncryptStorage({ key: 'key1' }));
+      const test1 = add(new EncryptStorage({ backend, key: 'key1' }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      const test2 = add(new EncryptStorage({ key: 'key2' }));
+      const test2 = add(new EncryptStorage({ backend, key: 'key2' }));
 
-      expect(await catchAsyncErrorMessage(test2.get(ikey))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+      expect(await catchAsyncErrorMessage(test2.get(ikey))).toEqual(WRONG_KEY_ERROR_MESSAGE);
     });
 
     it('should not get stored values from another salts with a same key, db, storeName', async () => {
       const dbName = 'anydb';
       const tableName = 'anyStore';
       const key = 'anyKey';
-      let test1 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt: new Uint8Array([1, 2, 3]) }));
+      let test1 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt: new Uint8Array([1, 2, 3]) }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      test1 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt: new Uint8Array([1, 22, 13]) }));
+      test1 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt: new Uint8Array([1, 22, 13]) }));
 
-      expect(await catchAsyncErrorMessage(test1.get(ikey))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+      expect(await catchAsyncErrorMessage(test1.get(ikey))).toEqual(WRONG_KEY_ERROR_MESSAGE);
     });
 
     it('should not get stored values from another iterations with a same key, db, storeName and salts', async () => {
@@ -246,146 +393,1930 @@ describe('EncryptStorage IDB tests', () => {
       const tableName = 'anyStore';
       const key = 'anyKey';
       const salt = new Uint8Array([1, 2, 3]);
-      let test1 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt, iterations: 123 }));
+      let test1 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt, iterations: 123 }));
       const ikey = 'any key';
       const value = 'any value';
       await test1.set(ikey, value);
 
-      test1 = add(new EncryptStorage({ key, db: dbName, name: tableName, salt, iterations: 1213 }));
+      test1 = add(new EncryptStorage({ backend, key, db: dbName, name: tableName, salt, iterations: 1213 }));
 
-      expect(await catchAsyncErrorMessage(test1.get(ikey))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+      expect(await catchAsyncErrorMessage(test1.get(ikey))).toEqual(WRONG_KEY_ERROR_MESSAGE);
     });
   });
 
-  describe('Clearing data', () => {
-    it('should clear all existing data but the salt', async () => {
-      const test = add(new EncryptStorage({ key: 'any key' }));
-      await test.set('any key 1', 'any data 1');
-      await test.set('any key 2', 'any data 2');
-      await test.clear();
+  describe('Saving structured values', () => {
+    const roundTrip = async <T>(value: T): Promise<T | undefined> => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', value);
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
-      let result = allKeys.length !== 1;
+      return test.get<T>('any key');
+    };
 
-      if(!result) {
-        const saltHash = await generateHash('o-salt');
-        result = decode(allKeys[0]) === decode(saltHash)
-      }
+    it('should restore plain objects and arrays', async () => {
+      const value = { name: 'any', tags: ['a', 'b'], nested: { count: 1, enabled: true, empty: null } };
 
-      expect(result).toBeTrue();
+      expect(await roundTrip(value)).toEqual(value);
     });
 
-    it('should not delete the store', async () => {
-      const test = add(new EncryptStorage({ key: 'any key' }));
-      await test.set('any key', 'any data');
-      await test.clear();
+    it('should restore numbers and booleans', async () => {
+      expect(await roundTrip(42.5)).toBe(42.5);
+      expect(await roundTrip(false)).toBe(false);
+    });
 
-      const [db] = await test['_properties'];
+    it('should restore dates, maps and sets including nested ones', async () => {
+      const date = new Date(2020, 1, 2);
+      const value = new Map<string, unknown>([['date', date], ['set', new Set([1, 2])]]);
+      const result = await roundTrip(value);
 
-      expect(db.objectStoreNames.length !== 0).toBeTrue();
+      expect(result).toBeInstanceOf(Map);
+      expect(result?.get('date')).toEqual(date);
+      expect(result?.get('set')).toEqual(new Set([1, 2]));
     });
 
-    it('should not delete the db', async () => {
-      const test = add(new EncryptStorage({ key: 'any key' }));
-      await test.set('any key', 'any data');
-      await test.clear();
-      const allDbs = await window.indexedDB.databases();
+    it('should restore binary values with their original type', async () => {
+      const bytes = new Uint8Array([1, 2, 3, 250]);
+      const floats = new Float32Array([1.5, -2]);
 
-      expect(allDbs.length !== 0).toBeTrue();
+      expect(await roundTrip(bytes)).toEqual(bytes);
+      expect(await roundTrip(floats)).toEqual(floats);
+      expect(new Uint8Array((await roundTrip(bytes.buffer)) as ArrayBuffer)).toEqual(bytes);
     });
 
-    it('should be able to set new values after clearing and get it from another instance', async () => {
-      const key = 'raw key';
-      const ikey = 'any key';
-      const value = 'any value';
-      let test = add(new EncryptStorage({ key, log: true }));
-      await test.set(ikey, value);
-      await test.clear();
-      await test.set(ikey, value);
-      test = add(new EncryptStorage({ key }));
+    it('should restore blobs with their type', async () => {
+      const result = await roundTrip(new Blob(['any content'], { type: 'text/plain' }));
 
-      expect(await test.get(ikey)).toBe(value);
+      expect(result).toBeInstanceOf(Blob);
+      expect(result?.type).toBe('text/plain');
+      expect(await result?.text()).toBe('any content');
+    });
+
+    it('should read string entries saved before values were tagged', async () => {
+      const test = await createLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+
+      expect(await test.get('legacy key')).toBe('legacy value');
     });
   });
 
-  describe('when deleting individual data', () => {
-    it('should keep the salt even if it deletes the only existing data', async () => {
-      const test = add(new EncryptStorage({ key: 'any' }));
-      const key = 'any key 1';
-      await test.set(key, 'any data 1');
-      await test.delete(key);
+  describe('Record format', () => {
+    it('should save each entry as one versioned record', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
-      let result = allKeys.length !== 1;
+      const [store] = await test['_properties'];
+      const record = await store.get(await getLookupId(test, 'any key')) as IEntryRecord;
 
-      if(!result) {
-        const saltHash = await generateHash('o-salt');
-        result = decode(allKeys[0]) === decode(saltHash)
-      }
+      expect(record.version).toBe(ENTRY_RECORD_VERSION);
+      expect(record.algorithm).toBe('AES-GCM');
+      expect(record.iv).toBeInstanceOf(Uint8Array);
+      expect(record.ciphertext).toBeInstanceOf(ArrayBuffer);
+      expect(await store.get(await generateHash('any key-nonce'))).toBeUndefined();
+    });
 
-      expect(result).toBeTrue();
+    it('should not share nonces between binary keys', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set(new Uint8Array([1]), 'value 1');
+      await test.set(new Uint8Array([2]), 'value 2');
+
+      expect(await test.get(new Uint8Array([1]))).toBe('value 1');
+      expect(await test.get(new Uint8Array([2]))).toBe('value 2');
     });
 
-    it('should delete data only for the giving key', async () => {
-      const test = add(new EncryptStorage({ key: 'any' }));
-      const key = 'any key 1';
-      await test.set(key, 'any data 1');
-      await test.set('any key 2', 'any data 2');
-      await test.delete(key);
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
+    it('should migrate entries saved as a ciphertext and a bare nonce', async () => {
+      const test = await createLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+      expect(await test.get('legacy key')).toBe('legacy value');
 
-      expect(allKeys.length >= 1).toBeTrue();
+      const [store] = await test['_properties'];
+      const record = await store.get(await getLookupId(test, 'legacy key')) as IEntryRecord;
+
+      expect(record.version).toBe(ENTRY_RECORD_VERSION);
+      expect(await store.get(await generateHash('legacy key'))).toBeUndefined();
+      expect(await store.get(await generateHash('legacy key-nonce'))).toBeUndefined();
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('legacy key')).toBe('legacy value');
     });
 
-    it('should be able to set new data after deleting one', async () => {
-      const test = add(new EncryptStorage({ key: 'any' }));
-      const key = 'any key 1';
-      await test.set(key, 'any data 1');
-      await test.delete(key);
-      await test.set('any key 2', 'any data 2');
+    it('should migrate entries saved as a ciphertext and a linked nonce on read', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store, , , , dataKey] = await test['_properties'];
+      const hashKey = await generateHash('linked key');
+      const hashNonce = await generateHash('linked key-nonce');
+      const [encrypted, nonce] = await encrypt({ data: 'linked value', key: await dataKey });
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
+      await store.put(hashKey, encrypted);
+      await store.put(hashNonce, { nonce, ref: hashKey });
 
-      expect(allKeys.length >= 1).toBeTrue();
+      expect(await test.get('linked key')).toBe('linked value');
+      expect((await store.get(await getLookupId(test, 'linked key')) as IEntryRecord).version).toBe(ENTRY_RECORD_VERSION);
+      expect(await store.get(hashKey)).toBeUndefined();
+      expect(await store.get(hashNonce)).toBeUndefined();
     });
 
-    it('should not be able to get the deleted data from another instance', async () => {
-      const key = 'raw key';
-      const ikey = 'any key';
-      let test1 = add(new EncryptStorage({ key }));
-      await test1.set(ikey, 'any data');
-      await test1.delete(ikey);
-      const test2 = add(new EncryptStorage({ key }));
-      expect(await test2.get(ikey)).toBeUndefined();
+    it('should migrate records encrypted without additional data on read', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store, , , , dataKey] = await test['_properties'];
+      const hashKey = await generateHash('unbound key');
+      const [ciphertext, iv] = await encrypt({ data: 'unbound value', key: await dataKey });
+
+      await store.put(hashKey, { version: 1, algorithm: 'AES-GCM', iv, ciphertext });
+
+      expect(await test.get('unbound key')).toBe('unbound value');
+      expect((await store.get(await getLookupId(test, 'unbound key')) as IEntryRecord).version).toBe(ENTRY_RECORD_VERSION);
+      expect(await test.get('unbound key')).toBe('unbound value');
+    });
+
+    it('should not decrypt a record copied over another key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany([['isAdmin', 'true'], ['theme', 'dark']]);
+
+      const [store] = await test['_properties'];
+      await store.put(await getLookupId(test, 'theme'), await store.get(await getLookupId(test, 'isAdmin')));
+
+      expect(await catchAsyncErrorMessage(test.get('theme'))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
     });
   });
 
-  describe('when deleting the database', () => {
-    it('should delete the data base', async () => {
-      const test = new EncryptStorage({ key: 'any key' });
-      await test.set('any key', 'any data');
-      await test.deleteDB();
-      const allDbs = await window.indexedDB.databases();
+  describe('Format versions', () => {
+    const getMetadata = async (test: EncryptStorage): Promise<IStoreMetadata> => {
+      const [store] = await test['_properties'];
 
-      expect(allDbs.length !== 0).toBeFalsy();
+      return store.get(await generateHash('o-metadata')) as Promise<IStoreMetadata>;
+    };
+
+    it('should record the format version and the key derivation parameters', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', iterations: 1000 }));
+      await test.ready();
+
+      expect(await getMetadata(test)).toEqual({ version: FORMAT_VERSION, kdf: { algorithm: 'PBKDF2', hash: 'SHA-256', iterations: 1000 } });
+    });
+
+    it('should add the metadata to the stores created before it', async () => {
+      await createFormatV1Store(backend, 'any key', [['any key', 'any value']]);
+
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+
+      expect(await test.get('any key')).toBe('any value');
+      expect(await getMetadata(test)).toEqual({ version: FORMAT_VERSION, kdf: { algorithm: 'PBKDF2', hash: 'SHA-256', iterations: DEFAULT_ITERATIONS } });
+    });
+
+    it('should not record the key derivation parameters of a wrong key', async () => {
+      await createFormatV1Store(backend, 'any key', [['any key', 'any value']]);
+
+      const test = add(new EncryptStorage({ backend, key: 'wrong key' }));
+
+      await expectAsync(test.ready()).toBeRejectedWithError(WrongKeyError);
+      expect((await getMetadata(test)).kdf).toBeUndefined();
+    });
+
+    it('should not record the key derivation parameters of a wrong key for stores created before key verifiers', async () => {
+      await writeLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+
+      const test = add(new EncryptStorage({ backend, key: 'wrong key', iterations: 1000 }));
+
+      await expectAsync(test.ready()).toBeRejectedWithError(WrongKeyError);
+      expect((await getMetadata(test)).kdf).toBeUndefined();
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('legacy key')).toBe('legacy value');
+    });
+
+    it('should not record the key derivation parameters before an entry authenticates', async () => {
+      await writeLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+      const store = await openBackend(backend, await generateHash('default-db'), await generateHash('default-storage-name'));
+      // the entry can't be checked without its nonce
+      const nonce = await store.get(await generateHash('legacy key-nonce'));
+      await store.delete(await generateHash('legacy key-nonce'));
+      await store.close();
+
+      const test = add(new EncryptStorage({ backend, key: 'wrong key', iterations: 1000 }));
+      await test.ready();
+
+      expect((await getMetadata(test)).kdf).toBeUndefined();
+
+      const [testStore] = await test['_properties'];
+      await testStore.put(await generateHash('legacy key-nonce'), nonce);
+
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('legacy key')).toBe('legacy value');
+    });
+
+    it('should derive the key with the recorded iterations when none are given', async () => {
+      const setup = new EncryptStorage({ backend, key: 'any key', iterations: 1000 });
+      await setup.set('any key', 'any value');
+      await setup.close();
+
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+
+      expect(await test.get('any key')).toBe('any value');
+    });
+
+    it('should record the iterations of a re-key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.rekey('new key', { iterations: 1000 });
+
+      expect((await getMetadata(test)).kdf?.iterations).toBe(1000);
+    });
+
+    it('should migrate the stores created before data encryption keys once the key is authenticated', async () => {
+      await writeLegacyStore(backend, 'any key', [['read key', 'read value'], ['unread key', 'unread value']]);
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.ready();
+      const [store] = await test['_properties'];
+
+      expect((await getMetadata(test)).version).toBe(FORMAT_VERSION);
+      expect(await store.get(await generateHash('o-data-key'))).toBeDefined();
+      expect(await store.get(await generateHash('read key-nonce'))).toBeUndefined();
+      expect((await store.get(await generateHash('read key')) as IEntryRecord).version).toBe(ENTRY_RECORD_VERSION);
+
+      // the entries move to their lookup identifier once read, their original keys were not kept
+      expect(await test.get('read key')).toBe('read value');
+      expect(await store.get(await generateHash('read key'))).toBeUndefined();
+      expect(await store.get(await getLookupId(test, 'read key'))).toBeDefined();
+      expect(await store.get(await generateHash('unread key'))).toBeDefined();
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).getMany(['read key', 'unread key'])).toEqual(['read value', 'unread value']);
+    });
+
+    it('should not migrate the stores created before data encryption keys with a wrong key', async () => {
+      await writeLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+      const test = add(new EncryptStorage({ backend, key: 'wrong key' }));
+      const [store] = await test['_properties'];
+
+      await expectAsync(test.ready()).toBeRejectedWithError(WrongKeyError);
+      expect((await getMetadata(test)).version).toBe(1);
+      expect(await store.get(await generateHash('o-data-key'))).toBeUndefined();
+      expect(await store.get(await generateHash('legacy key-nonce'))).toBeDefined();
+    });
+
+    it('should keep reading the stores whose entries can\'t be migrated in the previous format', async () => {
+      await writeTamperedLegacyStore(backend, 'any key');
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+
+      expect(await test.get('any key')).toBe('any value');
+      expect(await catchAsyncErrorMessage(test.get('tampered key'))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+      expect((await getMetadata(test)).version).toBe(1);
+    });
+
+    it('should run the pending migrations in order, once', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.ready();
+      const [store] = await test['_properties'];
+      await store.delete(await generateHash('o-metadata'));
+      const migrated: number[] = [];
+      // nothing but the transaction can be awaited in a migration
+      const recordKey = await generateHash('any record');
+      const migrations: IMigration[] = [3, 2].map((version) => ({
+        version,
+        migrate: async (tx) => {
+          migrated.push(version);
+          await tx.put(recordKey, version);
+        }
+      }));
+
+      expect(await migrateStore(store, migrations, 3)).toEqual({ version: 3 });
+      expect(await migrateStore(store, migrations, 3)).toEqual({ version: 3 });
+      expect(migrated).toEqual([2, 3]);
+      expect(await store.get(recordKey)).toBe(3);
+    });
+
+    it('should leave the store as it was when a migration fails', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store] = await test['_properties'];
+      await test.ready();
+      const recordKey = await generateHash('any record');
+      const migrations: IMigration[] = [{
+        version: FORMAT_VERSION + 1,
+        migrate: async (tx) => {
+          await tx.put(recordKey, 'any value');
+
+          throw new Error('any error');
+        }
+      }];
+
+      await expectAsync(migrateStore(store, migrations, FORMAT_VERSION + 1)).toBeRejectedWithError('any error');
+      expect((await getMetadata(test)).version).toBe(FORMAT_VERSION);
+      expect(await store.get(recordKey)).toBeUndefined();
+    });
+
+    it('should refuse the stores written in a newer format', async () => {
+      const setup = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store] = await setup['_properties'];
+      await store.put(await generateHash('o-metadata'), { version: FORMAT_VERSION + 1 });
+
+      const test = new EncryptStorage({ backend, key: 'any key' });
+
+      await expectAsync(test.ready()).toBeRejectedWithError(UnsupportedFormatError, UNSUPPORTED_FORMAT_ERROR_MESSAGE);
+    });
+
+    it('should refuse the records written in a newer format', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      const [store] = await test['_properties'];
+      const lookupId = await getLookupId(test, 'any key');
+      await store.put(lookupId, { ...await store.get(lookupId) as IEntryRecord, version: ENTRY_RECORD_VERSION + 1 });
+
+      await expectAsync(test.get('any key')).toBeRejectedWithError(UnsupportedFormatError, UNSUPPORTED_FORMAT_ERROR_MESSAGE);
     });
   });
 
-  describe('when closing the database', () => {
-    it('should have close the database with saved data', async () => {
-      let test = new EncryptStorage({ key: 'any key' });
-      await test.set('any key', 'any data');
-      await test.close();
-      test = add(new EncryptStorage({ key: 'any key' }));
+  describe('Compression', () => {
+    const value = { items: Array.from({ length: 200 }, (_, index) => ({ id: index, name: 'any name', tags: ['any', 'tag'] })) };
 
-      const [db, dbStorageName] = await test['_properties'];
-      const allKeys = await db.getAllKeys(dbStorageName);
+    const getCiphertextLength = async (test: EncryptStorage, key: string): Promise<number> => {
+      const [store] = await test['_properties'];
 
-      expect(allKeys.length >= 1).toBeTrue();
+      return (await store.get(await getLookupId(test, key)) as IEntryRecord).ciphertext.byteLength;
+    };
+
+    it('should compress the values before encrypting them', async () => {
+      const plain = add(new EncryptStorage({ backend, key: 'any key', db: 'plain' }));
+      await plain.set('any key', value);
+
+      for (const compression of ['gzip', 'deflate', 'auto'] as const) {
+        const test = add(new EncryptStorage({ backend, key: 'any key', db: compression, compression }));
+        await test.set('any key', value, { ttl: 60000 });
+
+        expect(await getCiphertextLength(test, 'any key')).toBeLessThan(await getCiphertextLength(plain, 'any key') / 4);
+        expect(await test.get<typeof value>('any key')).toEqual(value);
+      }
+    });
+
+    it('should keep the values that compressing would make larger', async () => {
+      const plain = add(new EncryptStorage({ backend, key: 'any key', db: 'plain' }));
+      const test = add(new EncryptStorage({ backend, key: 'any key', db: 'compressed', compression: 'gzip' }));
+      await plain.set('any key', 'any value');
+      await test.set('any key', 'any value');
+
+      expect(await getCiphertextLength(test, 'any key')).toBe(await getCiphertextLength(plain, 'any key'));
+      expect(await test.get('any key')).toBe('any value');
+    });
+
+    it('should read the values saved without compression and the other way round', async () => {
+      await add(new EncryptStorage({ backend, key: 'any key' })).set('plain', value);
+      const test = add(new EncryptStorage({ backend, key: 'any key', compression: 'auto' }));
+      await test.set('compressed', value);
+
+      expect(await test.get<typeof value>('plain')).toEqual(value);
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get<typeof value>('compressed')).toEqual(value);
+    });
+
+    it('should skip compressing without CompressionStream only when automatic', async () => {
+      const global = globalThis as { CompressionStream?: unknown };
+      const compressionStream = global.CompressionStream;
+      delete global.CompressionStream;
+
+      try {
+        const test = add(new EncryptStorage({ backend, key: 'any key', compression: 'auto' }));
+        await test.set('any key', value);
+
+        expect(await test.get<typeof value>('any key')).toEqual(value);
+        expect(await catchAsyncErrorMessage(add(new EncryptStorage({ backend, key: 'any key', compression: 'gzip' })).set('any key', value)))
+          .toEqual(COMPRESSION_UNAVAILABLE_ERROR_MESSAGE);
+      } finally {
+        global.CompressionStream = compressionStream;
+      }
+    });
+  });
+
+  describe('Blobs in chunks', () => {
+    const bytes = generateRandomValues(4500);
+    const blob = new Blob([bytes], { type: 'application/octet-stream' });
+
+    const getChunkRecords = async (test: EncryptStorage): Promise<[ArrayBuffer, IChunkRecord][]> => {
+      const [store] = await test['_properties'];
+
+      return (await store.iterate()).filter(isChunkEntry);
+    };
+
+    const readStream = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array[]> => {
+      const reader = stream.getReader();
+      const chunks: Uint8Array[] = [];
+
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        chunks.push(result.value);
+      }
+
+      return chunks;
+    };
+
+    it('should save a Blob in encrypted chunks and read it back', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+
+      const chunks = await getChunkRecords(test);
+      const restored = await test.getBlob('any key') as Blob;
+
+      expect(chunks.length).toBe(5);
+      expect(new Set(chunks.map(([, { iv }]) => toBase64(iv))).size).toBe(5);
+      expect(restored.type).toBe('application/octet-stream');
+      expect(new Uint8Array(await restored.arrayBuffer())).toEqual(bytes);
+      expect(new Uint8Array(await (await test.get<Blob>('any key') as Blob).arrayBuffer())).toEqual(bytes);
+    });
+
+    it('should check that a Blob exists without reading its chunks', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store] = await test['_properties'];
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+      const get = spyOn(store, 'get').and.callThrough();
+
+      expect(await test.has('any key')).toBeTrue();
+      expect(await test.has('other key')).toBeFalse();
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it('should only accept positive integer chunk sizes', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+
+      for (const chunkSize of [0, -1000, 0.5, NaN, Infinity]) {
+        await expectAsync(test.setBlob('any key', blob, { chunkSize })).toBeRejectedWithError(RangeError, CHUNK_SIZE_ERROR_MESSAGE);
+      }
+
+      expect((await getChunkRecords(test)).length).toBe(0);
+      expect(await test.has('any key')).toBeFalse();
     });
+
+    it('should stream the chunks', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+
+      const chunks = await readStream(await test.getStream('any key') as ReadableStream<Uint8Array>);
+
+      expect(chunks.map(({ byteLength }) => byteLength)).toEqual([1000, 1000, 1000, 1000, 500]);
+      expect(new Uint8Array(await new Blob(chunks).arrayBuffer())).toEqual(bytes);
+      expect(await test.getStream('other key')).toBeUndefined();
+    });
+
+    it('should not read reordered or dropped chunks', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store] = await test['_properties'];
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+      const chunks = await getChunkRecords(test);
+      const [first, second] = chunks.sort(([, a], [, b]) => a.index - b.index);
+
+      await store.put(first[0], { ...second[1], index: 0 });
+      await store.put(second[0], { ...first[1], index: 1 });
+
+      expect(await catchAsyncErrorMessage(test.getBlob('any key'))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+
+      await store.put(first[0], first[1]);
+      await store.put(second[0], second[1]);
+      await store.delete(chunks[4][0]);
+
+      expect(await catchAsyncErrorMessage(test.getBlob('any key'))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+      expect(await catchAsyncErrorMessage(readStream(await test.getStream('any key') as ReadableStream<Uint8Array>)))
+        .toEqual(AUTHENTICITY_ERROR_MESSAGE);
+    });
+
+    it('should delete the chunks along with their entry', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+      await test.setBlob('any key', blob, { chunkSize: 2000 });
+
+      expect((await getChunkRecords(test)).length).toBe(3);
+
+      await test.set('any key', 'any value');
+
+      expect((await getChunkRecords(test)).length).toBe(0);
+
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+      await test.delete('any key');
+
+      expect((await getChunkRecords(test)).length).toBe(0);
+    });
+
+    it('should skip the chunks without reading them when walking the entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+      await test.set('other key', 'any value');
+      const chunkKeys = (await getChunkRecords(test)).map(([chunkKey]) => chunkKey);
+      const [store] = await test['_properties'];
+      const iterate = spyOn(store, 'iterate').and.callThrough();
+      const keys: string[] = [];
+
+      for await (const key of test.keys()) {
+        keys.push(key);
+      }
+
+      expect(keys.sort()).toEqual(['any key', 'other key']);
+      expect(await test.size()).toBe(2);
+      expect(iterate).toHaveBeenCalled();
+      iterate.calls.allArgs().forEach(([, , filter]) => {
+        expect(chunkKeys.some((chunkKey) => filter?.(chunkKey) ?? true)).toBeFalse();
+      });
+    });
+
+    it('should read other binary values as Blobs', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany<unknown>([['buffer', bytes.buffer], ['blob', blob], ['string', 'any value']]);
+
+      expect(new Uint8Array(await (await test.getBlob('buffer') as Blob).arrayBuffer())).toEqual(bytes);
+      expect((await readStream(await test.getStream('blob') as ReadableStream<Uint8Array>)).length).toBeGreaterThan(0);
+      expect(await catchAsyncErrorMessage(test.getBlob('string'))).toEqual(NOT_BINARY_ERROR_MESSAGE);
+    });
+
+    it('should restore the chunks of a backup', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+
+      const restored = add(await EncryptStorage.importBackup(await test.exportBackup(), 'any key', { backend, db: 'restored-db' }));
+
+      expect(new Uint8Array(await (await restored.getBlob('any key') as Blob).arrayBuffer())).toEqual(bytes);
+    });
+
+    it('should keep the chunks readable when re-keying a store created before data encryption keys existed', async () => {
+      const test = await createLegacyStore(backend, 'old key', [['legacy key', 'legacy value']]);
+      await test.setBlob('any key', blob, { chunkSize: 1000 });
+      await test.rekey('new key');
+
+      const reopened = add(new EncryptStorage({ backend, key: 'new key' }));
+
+      expect(new Uint8Array(await (await reopened.getBlob('any key') as Blob).arrayBuffer())).toEqual(bytes);
+      expect((await getChunkRecords(reopened)).length).toBe(5);
+      expect((await reopened.usage()).bytes).toBeGreaterThan(bytes.length);
+    });
+  });
+
+  describe('Usage and limits', () => {
+    const getEntryCount = async (test: EncryptStorage): Promise<number> => (await test.usage()).entries;
+
+    it('should measure the entries and their encrypted size', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.ready();
+      const empty = await test.usage();
+
+      await test.setMany([['key 1', 'value 1'], ['key 2', 'x'.repeat(1000)]]);
+      const usage = await test.usage();
+
+      expect(empty.entries).toBe(0);
+      expect(usage.entries).toBe(2);
+      expect(usage.bytes).toBeGreaterThan(empty.bytes + 1000);
+    });
+
+    it('should report the usage of the origin and ask to persist it', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const storage = {
+        estimate: jasmine.createSpy('estimate').and.resolveTo({ usage: 100, quota: 1000 }),
+        persisted: jasmine.createSpy('persisted').and.resolveTo(false),
+        persist: jasmine.createSpy('persist').and.resolveTo(true)
+      };
+      const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+      Object.defineProperty(globalThis, 'navigator', { value: { storage }, configurable: true });
+
+      try {
+        expect((await test.usage()).origin).toEqual({ usage: 100, quota: 1000, persisted: false });
+        expect(await test.persist()).toBeTrue();
+      } finally {
+        Object.defineProperty(globalThis, 'navigator', descriptor ?? { value: undefined, configurable: true });
+      }
+    });
+
+    it('should refuse the writes over the limits', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', maxEntries: 2 }));
+      await test.setMany([['key 1', 'value 1'], ['key 2', 'value 2']]);
+
+      await expectAsync(test.set('key 3', 'value 3')).toBeRejectedWithError(QuotaExceededError, LIMIT_EXCEEDED_ERROR_MESSAGE);
+      await test.set('key 2', 'other value');
+
+      expect(await test.get('key 3')).toBeUndefined();
+      expect(await test.get('key 2')).toBe('other value');
+
+      const small = add(new EncryptStorage({ backend, key: 'any key', db: 'small', maxBytes: 1000 }));
+
+      await expectAsync(small.set('any key', 'x'.repeat(2000))).toBeRejectedWithError(QuotaExceededError);
+      await expectAsync(small.setBlob('any key', new Blob(['x'.repeat(2000)]))).toBeRejectedWithError(QuotaExceededError);
+      expect(await getEntryCount(small)).toBe(0);
+    });
+
+    it('should evict the least recently used entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', maxEntries: 2, onLimit: 'evict' }));
+      const listener = jasmine.createSpy('listener');
+      test.on('change', listener);
+
+      await test.set('key 1', 'value 1');
+      await test.set('key 2', 'value 2');
+      await test.get('key 1');
+      await test.set('key 3', 'value 3');
+
+      expect(await test.get('key 2')).toBeUndefined();
+      expect(await test.get('key 1')).toBe('value 1');
+      expect(await test.get('key 3')).toBe('value 3');
+      expect(listener).toHaveBeenCalledWith({ type: 'delete', key: 'key 2', remote: false });
+
+      // the last uses are kept across instances
+      const reopened = add(new EncryptStorage({ backend, key: 'any key', maxEntries: 2, onLimit: 'evict' }));
+      await reopened.set('key 4', 'value 4');
+
+      expect(await reopened.get('key 1')).toBeUndefined();
+      expect(await reopened.get('key 3')).toBe('value 3');
+    });
+
+    it('should evict the chunks along with their entry', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', maxBytes: 6000, onLimit: 'evict' }));
+      await test.setBlob('blob', new Blob([generateRandomValues(4000)]), { chunkSize: 1000 });
+      await test.setBlob('other blob', new Blob([generateRandomValues(4000)]), { chunkSize: 1000 });
+
+      expect(await test.getBlob('blob')).toBeUndefined();
+      expect((await test.getBlob('other blob'))?.size).toBe(4000);
+      expect((await test.usage()).bytes).toBeLessThanOrEqual(6000);
+    });
+
+    it('should count the chunks from their entry without reading them', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', maxBytes: 6000 }));
+      await test.setBlob('blob', new Blob([generateRandomValues(4000)]), { chunkSize: 1000 });
+      const [store] = await test['_properties'];
+      const iterate = spyOn(store, 'iterate').and.callThrough();
+
+      expect((await test.usage()).bytes).toBeGreaterThan(4000);
+      await expectAsync(test.setBlob('other blob', new Blob([generateRandomValues(4000)]), { chunkSize: 1000 }))
+        .toBeRejectedWithError(QuotaExceededError, LIMIT_EXCEEDED_ERROR_MESSAGE);
+      expect(iterate.calls.allArgs().every(([, , filter]) => filter !== undefined)).toBeTrue();
+
+      const restored = add(await EncryptStorage.importBackup(await test.exportBackup(), 'any key', { backend, db: 'restored-db' }));
+
+      expect((await restored.usage()).bytes).toBeGreaterThan(4000);
+    });
+
+    it('should not keep the key names in the usage index', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', maxEntries: 10, onLimit: 'evict' }));
+      const [store] = await test['_properties'];
+      await test.set('secret key name', 'any value');
+
+      const index = await store.get(await generateHash('o-usage-index')) as IEntryRecord;
+
+      expect(index.ciphertext).toBeInstanceOf(ArrayBuffer);
+      expect(stringifyRecord(index)).not.toContain('secret');
+    });
+  });
+
+  describe('Batch operations', () => {
+    it('should save and get many entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany<unknown>([['key 1', 'value 1'], ['key 2', { any: 2 }], ['key 3', 3, { ttl: 60000 }]]);
+
+      expect(await test.getMany<unknown>(['key 1', 'key 2', 'key 3'])).toEqual(['value 1', { any: 2 }, 3]);
+    });
+
+    it('should get undefined for the missing and expired keys', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany([['key 1', 'value 1'], ['key 2', 'value 2', { expiresAt: Date.now() - 1 }]]);
+
+      expect(await test.getMany(['key 1', 'key 2', 'missing key'])).toEqual(['value 1', undefined, undefined]);
+    });
+
+    it('should save many entries in one transaction', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const entries = Array.from({ length: 500 }, (_, index): [string, string] => [`key ${index}`, `value ${index}`]);
+      const [store] = await test['_properties'];
+      const transaction = spyOn(store, 'transaction').and.callThrough();
+
+      await test.setMany(entries);
+
+      expect(transaction.calls.allArgs().filter(([mode]) => mode === 'readwrite').length).toBe(1);
+      expect(await test.get('key 499')).toBe('value 499');
+    });
+
+    it('should not save any entry when one of them can not be saved', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const error = await catchAsyncErrorMessage(test.setMany<unknown>([['key 1', 'value 1'], ['key 2', () => undefined]]));
+
+      expect(error).toBeDefined();
+      expect(await test.get('key 1')).toBeUndefined();
+    });
+
+    it('should delete many entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany([['key 1', 'value 1'], ['key 2', 'value 2'], ['key 3', 'value 3']]);
+      await test.deleteMany(['key 1', 'key 3']);
+
+      expect(await test.getMany(['key 1', 'key 2', 'key 3'])).toEqual([undefined, 'value 2', undefined]);
+    });
+  });
+
+  describe('Expiring entries', () => {
+    const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('should get the value before it expires', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value', { ttl: 60000 });
+
+      expect(await test.get('any key')).toBe('any value');
+    });
+
+    it('should not get the value once the ttl is over', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value', { ttl: 1 });
+      await wait(5);
+
+      expect(await test.get('any key')).toBeUndefined();
+    });
+
+    it('should delete the expired entry when getting it', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value', { expiresAt: new Date(Date.now() - 1) });
+      await test.get('any key');
+
+      const [store] = await test['_properties'];
+
+      expect(await store.get(await getLookupId(test, 'any key'))).toBeUndefined();
+      expect(await store.get(await generateHash('any key-nonce'))).toBeUndefined();
+    });
+
+    it('should purge only the expired entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('expired key', 'any value', { expiresAt: Date.now() - 1 });
+      await test.set('valid key', 'any value', { ttl: 60000 });
+      await test.set('persistent key', 'any value');
+
+      expect(await test.purgeExpired()).toEqual({ deleted: 1, failed: [] });
+
+      const [store] = await test['_properties'];
+
+      expect(await store.get(await getLookupId(test, 'expired key'))).toBeUndefined();
+      expect(await test.get('valid key')).toBe('any value');
+      expect(await test.get('persistent key')).toBe('any value');
+    });
+
+    it('should purge the expired entries next to the entries that can\'t be decrypted, and report them', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('expired key', 'any value', { expiresAt: Date.now() - 1 });
+      await test.set('tampered key', 'any value');
+      const [store] = await test['_properties'];
+      const recordKey = await getLookupId(test, 'tampered key');
+      await store.put(recordKey, { ...await store.get(recordKey) as IEntryRecord, ciphertext: new Uint8Array(32).buffer });
+
+      expect(await test.purgeExpired()).toEqual({ deleted: 1, failed: [toBase64(recordKey)] });
+      expect(await store.get(await getLookupId(test, 'expired key'))).toBeUndefined();
+      expect(await store.get(recordKey)).toBeDefined();
+    });
+
+    it('should notify the purged entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('expired key', 'any value', { expiresAt: Date.now() - 1 });
+      await test.set('valid key', 'any value');
+      const listener = jasmine.createSpy('listener');
+      test.on('change', listener);
+
+      await test.purgeExpired();
+
+      expect(listener.calls.allArgs()).toEqual([[{ type: 'delete', key: 'expired key', remote: false }]]);
+    });
+
+    it('should purge the expired entries on the given interval', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', iterations: 1000, purgeInterval: 20 }));
+      await test.set('any key', 'any value', { ttl: 1 });
+      await wait(200);
+
+      const [store] = await test['_properties'];
+
+      expect(await store.get(await getLookupId(test, 'any key'))).toBeUndefined();
+    });
+  });
+
+  describe('Per-entry subkeys', () => {
+    const getRecord = async (test: EncryptStorage, key: string): Promise<IEntryRecord> => {
+      const [store] = await test['_properties'];
+
+      return await store.get(await getLookupId(test, key)) as IEntryRecord;
+    };
+
+    it('should encrypt each entry under its own key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', subkeys: 'lookup' }));
+      const [store, , , , dataKey] = await test['_properties'];
+      await test.set('any key', 'any value');
+      const record = await getRecord(test, 'any key');
+
+      expect(record.subkey).toEqual({});
+      expect(await test.get('any key')).toBe('any value');
+      await expectAsync(decrypt({
+        data: record.ciphertext,
+        key: await dataKey,
+        nonceOrAlgorithm: record.iv,
+        additionalData: getAdditionalData(await getLookupId(test, 'any key'), store.name, 'value', ENTRY_RECORD_VERSION)
+      })).toBeRejected();
+    });
+
+    it('should derive a new key on every write when salted', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', subkeys: 'salted' }));
+      await test.set('any key', 'any value');
+      const { subkey: first } = await getRecord(test, 'any key');
+      await test.set('any key', 'any value');
+      const { subkey: second } = await getRecord(test, 'any key');
+
+      expect(first?.salt?.byteLength).toBe(16);
+      expect(toBase64(first!.salt!)).not.toBe(toBase64(second!.salt!));
+      expect(await test.get('any key')).toBe('any value');
+    });
+
+    it('should bind the key to the entry identifier', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', subkeys: 'salted' }));
+      const [store] = await test['_properties'];
+      await test.setMany([['key 1', 'value 1'], ['key 2', 'value 2']]);
+      const record = await getRecord(test, 'key 1');
+
+      await store.put(await getLookupId(test, 'key 2'), { ...record, subkey: (await getRecord(test, 'key 2')).subkey });
+
+      expect(await catchAsyncErrorMessage(test.get('key 2'))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+    });
+
+    it('should read the entries whichever option they were written with', async () => {
+      await add(new EncryptStorage({ backend, key: 'any key' })).set('plain', 'plain value');
+      const test = add(new EncryptStorage({ backend, key: 'any key', subkeys: 'salted' }));
+      await test.set('derived', 'derived value');
+      await test.setBlob('blob', new Blob(['blob value']), { chunkSize: 4 });
+      const [store] = await test['_properties'];
+      const chunks = (await store.iterate()).filter(isChunkEntry);
+
+      const other = add(new EncryptStorage({ backend, key: 'any key' }));
+
+      expect(chunks.every(([, record]) => record.subkey?.salt !== undefined)).toBeTrue();
+      expect(await other.get('derived')).toBe('derived value');
+      expect(await (await other.getBlob('blob') as Blob).text()).toBe('blob value');
+      expect(await test.get('plain')).toBe('plain value');
+      const keys: unknown[] = [];
+      for await (const key of test.keys()) {
+        keys.push(key);
+      }
+
+      expect(keys).toEqual(jasmine.arrayWithExactContents(['plain', 'derived', 'blob']));
+    });
+
+    it('should keep the entries readable when re-keying, and derive their keys when restored', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', subkeys: 'lookup' }));
+      await test.set('any key', 'any value');
+      await test.setBlob('blob', new Blob(['blob value']), { chunkSize: 4 });
+      await test.rekey('new key');
+
+      expect(await add(new EncryptStorage({ backend, key: 'new key' })).get('any key')).toBe('any value');
+
+      const restored = add(await EncryptStorage.importBackup(await test.exportBackup(), 'new key', { backend, db: 'restored-db', subkeys: 'salted' }));
+
+      expect((await getRecord(restored, 'any key')).subkey?.salt).toBeDefined();
+      expect(await restored.get('any key')).toBe('any value');
+      expect(await (await restored.getBlob('blob') as Blob).text()).toBe('blob value');
+    });
+
+    it('should encrypt under the derived key in stores created before data encryption keys existed', async () => {
+      const test = await createLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+      const subkeyTest = add(new EncryptStorage({ backend, key: 'any key', subkeys: 'lookup' }));
+      await subkeyTest.set('any key', 'any value');
+
+      expect(await test.get('any key')).toBe('any value');
+      expect(await subkeyTest.get('legacy key')).toBe('legacy value');
+    });
+  });
+
+  describe('Lookup identifiers', () => {
+    it('should not index the entries by the SHA-256 of their key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+
+      const [store] = await test['_properties'];
+
+      expect(await store.get(await generateHash('any key'))).toBeUndefined();
+      expect(await store.get(await getLookupId(test, 'any key'))).toBeDefined();
+    });
+
+    it('should add a lookup key to stores created without one', async () => {
+      const setup = new EncryptStorage({ backend, key: 'any key' });
+      const [store] = await setup['_properties'];
+      const dataKeyRecordKey = await generateHash('o-data-key');
+      const { wrappedKey, nonce } = await store.get(dataKeyRecordKey) as IDataKeyRecord;
+      await store.put(dataKeyRecordKey, { wrappedKey, nonce });
+      await setup.close();
+
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      const [reopened] = await test['_properties'];
+
+      expect((await reopened.get(dataKeyRecordKey) as IDataKeyRecord).wrappedLookupKey).toBeInstanceOf(ArrayBuffer);
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('any key')).toBe('any value');
+    });
+
+    it('should move the entries with their original key to their lookup identifier when re-keying', async () => {
+      const test = await createLegacyStore(backend, 'old key', [['legacy key', 'legacy value']]);
+      expect(await test.get('legacy key')).toBe('legacy value');
+      await test.rekey('new key');
+
+      const [store] = await test['_properties'];
+
+      expect(await store.get(await generateHash('legacy key'))).toBeUndefined();
+      expect(await store.get(await getLookupId(test, 'legacy key'))).toBeDefined();
+      expect(await add(new EncryptStorage({ backend, key: 'new key' })).get('legacy key')).toBe('legacy value');
+    });
+
+    // database names only exist in IndexedDB
+    if (backend === 'indexedDB') {
+      it('should name new databases and stores with the hex of their hash', async () => {
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        const db = await test.getDB();
+
+        expect(db.name).toBe(toHex(await generateHash('default-db')));
+        expect(await test.getStoreName()).toBe(toHex(await generateHash('default-storage-name')));
+      });
+
+      it('should keep the names of databases created with the decoded hashes', async () => {
+        const legacyName = decode(await generateHash('default-db'));
+        const setup = await IndexedDBBackend.open(legacyName, decode(await generateHash('default-storage-name')));
+        await setup.close();
+
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        await test.set('any key', 'any value');
+        const db = await test.getDB();
+
+        expect(db.name).toBe(legacyName);
+        expect(await test.get('any key')).toBe('any value');
+      });
+    } else {
+      it('should not give a database outside IndexedDB', async () => {
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+
+        await expectAsync(test.getDB()).toBeRejectedWithError(UnsupportedEnvironmentError, NOT_INDEXEDDB_ERROR_MESSAGE);
+      });
+    }
+  });
+
+  describe('Change notifications', () => {
+    const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+    /**
+     * @returns Promise with the next change reported to the listener of the given instance.
+     */
+    const nextChange = (test: EncryptStorage): Promise<IStorageChange> => new Promise((resolve) => {
+      const off = test.on('change', (change) => {
+        off();
+        resolve(change);
+      });
+    });
+
+    it('should notify the listeners of the changes', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const listener = jasmine.createSpy('listener');
+      test.on('change', listener);
+
+      await test.set('any key', { any: 'value' });
+      await test.delete('any key');
+      await test.clear();
+
+      expect(listener.calls.allArgs()).toEqual([
+        [{ type: 'set', key: 'any key', value: { any: 'value' }, remote: false }],
+        [{ type: 'delete', key: 'any key', remote: false }],
+        [{ type: 'clear', remote: false }]
+      ]);
+    });
+
+    it('should not notify the removed listeners', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const listener = jasmine.createSpy('listener');
+      test.on('change', listener)();
+      await test.set('any key', 'any value');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should watch the changes of one key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const callback = jasmine.createSpy('callback');
+      const unwatch = test.watch('watched key', callback);
+
+      await test.set('watched key', 'value 1');
+      await test.set('other key', 'other value');
+      await test.delete('watched key');
+      await test.setMany([['watched key', 'value 2']]);
+      unwatch();
+      await test.set('watched key', 'value 3');
+      await wait(10);
+
+      expect(callback.calls.allArgs().map(([value]) => value)).toEqual(['value 1', undefined, 'value 2']);
+    });
+
+    // the records of the other backends are not shared between tabs
+    if (backend === 'indexedDB' || backend === 'localStorage') {
+      it('should notify the other instances of the store with the decrypted value', async () => {
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        const other = add(new EncryptStorage({ backend, key: 'any key' }));
+        await other.getStoreName();
+
+        const change = nextChange(other);
+        await test.set('any key', { any: 'value' });
+
+        expect(await change).toEqual({ type: 'set', key: 'any key', value: { any: 'value' }, remote: true });
+      });
+
+      it('should not read the Blobs saved in chunks for the other instances', async () => {
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        const other = add(new EncryptStorage({ backend, key: 'any key' }));
+        const [store] = await other['_properties'];
+        const get = spyOn(store, 'get').and.callThrough();
+
+        const change = nextChange(other);
+        await test.setBlob('any key', new Blob([generateRandomValues(4000)]), { chunkSize: 1000 });
+
+        expect(await change).toEqual({ type: 'set', key: 'any key', value: undefined, remote: true });
+        expect(get.calls.allArgs().filter(([recordKey]) => decode(recordKey).startsWith('o-chunk:'))).toEqual([]);
+      });
+
+      it('should notify the watchers of other instances of the deletions', async () => {
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        const other = add(new EncryptStorage({ backend, key: 'any key' }));
+        await test.set('any key', 'any value');
+
+        const deleted = new Promise((resolve) => other.watch('any key', (value, change) => {
+          // the change of `set` may be received after watching
+          if (change.type === 'delete') {
+            resolve([value, change]);
+          }
+        }));
+        await test.delete('any key');
+
+        expect(await deleted).toEqual([undefined, { type: 'delete', key: 'any key', remote: true }]);
+      });
+
+      it('should only send the lookup identifiers to the other tabs', async () => {
+        const postMessage = spyOn(BroadcastChannel.prototype, 'postMessage').and.callThrough();
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        await test.set('any key', 'any value');
+
+        const [message] = postMessage.calls.mostRecent().args as [IChangeMessage];
+
+        expect(message).toEqual({ type: 'set', ids: [toBase64(await getLookupId(test, 'any key'))] });
+      });
+    }
+  });
+
+  describe('Verifying the key', () => {
+    it('should reject a wrong key even when the store has no entries', async () => {
+      await add(new EncryptStorage({ backend, key: 'any key' })).ready();
+      const test = add(new EncryptStorage({ backend, key: 'wrong key' }));
+
+      expect(await catchAsyncErrorMessage(test.ready())).toEqual(WRONG_KEY_ERROR_MESSAGE);
+      expect(await catchAsyncErrorMessage(test.get('any key'))).toEqual(WRONG_KEY_ERROR_MESSAGE);
+    });
+
+    it('should be ready with the right key', async () => {
+      await add(new EncryptStorage({ backend, key: 'any key' })).ready();
+
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).ready()).toBeUndefined();
+    });
+
+    it('should check a given key, also while locked', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+
+      expect(await test.verifyKey('any key')).toBeUndefined();
+      expect(await catchAsyncErrorMessage(test.verifyKey('wrong key'))).toEqual(WRONG_KEY_ERROR_MESSAGE);
+
+      await test.lock();
+
+      expect(await test.verifyKey('any key')).toBeUndefined();
+      expect(await catchAsyncErrorMessage(test.verifyKey('wrong key'))).toEqual(WRONG_KEY_ERROR_MESSAGE);
+      expect(test.locked).toBeTrue();
+    });
+
+    it('should reject a wrong key for stores created before key verifiers', async () => {
+      await writeLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+      const test = add(new EncryptStorage({ backend, key: 'wrong key' }));
+
+      await expectAsync(test.ready()).toBeRejectedWithError(WrongKeyError);
+      await expectAsync(test.verifyKey('wrong key')).toBeRejectedWithError(WrongKeyError);
+      await expectAsync(test.get('legacy key')).toBeRejectedWithError(WrongKeyError);
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('legacy key')).toBe('legacy value');
+    });
+
+    it('should add a key verifier to stores created before it once an entry authenticates', async () => {
+      await writeLegacyStore(backend, 'any key', [['legacy key 1', 'legacy value 1'], ['legacy key 2', 'legacy value 2']]);
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store] = await test['_properties'];
+
+      expect(await test.verifyKey('any key')).toBeUndefined();
+      await test.ready();
+
+      expect(await store.get(await generateHash('o-key-verifier'))).toBeDefined();
+      await expectAsync(test.verifyKey('wrong key')).toBeRejectedWithError(WrongKeyError);
+      await expectAsync(add(new EncryptStorage({ backend, key: 'wrong key' })).ready()).toBeRejectedWithError(WrongKeyError);
+    });
+
+    it('should check the key against the entry records of stores created before key verifiers', async () => {
+      await writeLegacyStore(backend, 'any key', []);
+      const setup = new EncryptStorage({ backend, key: 'any key' });
+      const [store, baseKey, salt, iterations] = await setup['_properties'];
+      const cryptoKey = await deriveKey({ key: baseKey, saltOrDeriveAlgorithm: salt, iterationsOrAlgorithmParam: iterations });
+      const [ciphertext, iv] = await encrypt({ data: 'unbound value', key: cryptoKey });
+      await store.put(await generateHash('unbound key'), { version: 1, algorithm: 'AES-GCM', iv, ciphertext });
+      await store.delete(await generateHash('o-data-key'));
+      await store.delete(await generateHash('o-key-verifier'));
+      await setup.close();
+
+      await expectAsync(add(new EncryptStorage({ backend, key: 'wrong key' })).ready()).toBeRejectedWithError(WrongKeyError);
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('unbound key')).toBe('unbound value');
+    });
+
+    it('should tell a tampered data encryption key apart from a wrong key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store] = await test['_properties'];
+      await test.ready();
+      const dataKeyRecordKey = await generateHash('o-data-key');
+      await store.put(dataKeyRecordKey, { ...await store.get(dataKeyRecordKey) as IDataKeyRecord, wrappedKey: new Uint8Array(40).buffer });
+
+      expect(await catchAsyncErrorMessage(add(new EncryptStorage({ backend, key: 'any key' })).ready())).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+    });
+
+    it('should add the verifier to stores created without one', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const [store] = await test['_properties'];
+      await test.set('any key', 'any value');
+      const verifierKey = await generateHash('o-key-verifier');
+      await store.delete(verifierKey);
+
+      expect(await catchAsyncErrorMessage(add(new EncryptStorage({ backend, key: 'wrong key' })).ready())).toEqual(WRONG_KEY_ERROR_MESSAGE);
+      expect(await store.get(verifierKey)).toBeUndefined();
+
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('any key')).toBe('any value');
+      expect(await store.get(verifierKey)).toBeDefined();
+    });
+
+    it('should keep the verifier when clearing', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      await test.clear();
+
+      expect(await catchAsyncErrorMessage(add(new EncryptStorage({ backend, key: 'wrong key' })).ready())).toEqual(WRONG_KEY_ERROR_MESSAGE);
+    });
+  });
+
+  describe('Errors', () => {
+    const catchAsyncError = (promise: Promise<unknown>): Promise<EncryptStorageError> => promise.then(() => undefined, (e) => e);
+
+    it('should tell a missing key', async () => {
+      const error = await catchAsyncError((async () => new EncryptStorage({ backend, key: '' }))());
+
+      expect(error).toBeInstanceOf(MissingKeyError);
+      expect(error).toBeInstanceOf(EncryptStorageError);
+      expect(error.code).toEqual('MISSING_KEY');
+    });
+
+    it('should tell a wrong key apart from a tampered record, keeping the WebCrypto error', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      const [store] = await test['_properties'];
+      const recordKey = await getLookupId(test, 'any key');
+      await store.put(recordKey, { ...await store.get(recordKey) as IEntryRecord, ciphertext: new Uint8Array(32).buffer });
+
+      const tampered = await catchAsyncError(test.get('any key'));
+      const wrongKey = await catchAsyncError(add(new EncryptStorage({ backend, key: 'wrong key' })).get('any key'));
+
+      expect(tampered).toBeInstanceOf(TamperedRecordError);
+      expect(tampered.code).toEqual('TAMPERED_RECORD');
+      expect((tampered.cause as Error).name).toEqual('OperationError');
+      expect(wrongKey).toBeInstanceOf(WrongKeyError);
+      expect(wrongKey.code).toEqual('WRONG_KEY');
+      expect((wrongKey.cause as Error).name).toEqual('OperationError');
+    });
+
+    it('should not report other failures as tampered records', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      const [store] = await test['_properties'];
+      const recordKey = await getLookupId(test, 'any key');
+      await store.put(recordKey, { ...await store.get(recordKey) as IEntryRecord, algorithm: 'AES-ANY' });
+
+      expect(await catchAsyncError(test.get('any key'))).toBeInstanceOf(UnsupportedAlgorithmError);
+
+      const failure = new Error('any error');
+      spyOn(store, 'transaction').and.rejectWith(failure);
+
+      expect<unknown>(await catchAsyncError(test.get('any key'))).toBe(failure);
+    });
+
+    it('should tell a missing nonce', async () => {
+      const test = await createLegacyStore(backend, 'any key', [['any key', 'any value']]);
+      const [store] = await test['_properties'];
+      await store.delete(await generateHash('any key-nonce'));
+
+      const error = await catchAsyncError(test.get('any key'));
+
+      expect(error).toBeInstanceOf(MissingNonceError);
+      expect(error.code).toEqual('MISSING_NONCE');
+    });
+
+    it('should tell a locked storage from a closed one', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.lock();
+
+      expect(await catchAsyncError(test.get('any key'))).toBeInstanceOf(StoreLockedError);
+
+      await test.close();
+      const error = await catchAsyncError(test.get('any key'));
+
+      expect(error).toBeInstanceOf(StoreClosedError);
+      expect(error.code).toEqual('STORE_CLOSED');
+    });
+  });
+
+  describe('Locking', () => {
+    it('should reject reading and writing entries once locked', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      await test.lock();
+
+      expect(test.locked).toBeTrue();
+      expect(await catchAsyncErrorMessage(test.get('any key'))).toEqual(LOCKED_ERROR_MESSAGE);
+      expect(await catchAsyncErrorMessage(test.set('any key', 'other value'))).toEqual(LOCKED_ERROR_MESSAGE);
+      expect(await catchAsyncErrorMessage(test.keys().next())).toEqual(LOCKED_ERROR_MESSAGE);
+      expect(await test.getStoreName()).toBeDefined();
+    });
+
+    it('should restore the access once unlocked', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', iterations: 1000 }));
+      await test.set('any key', 'any value');
+      await test.lock();
+      await test.unlock('any key');
+
+      expect(test.locked).toBeFalse();
+      expect(await test.get('any key')).toBe('any value');
+    });
+
+    it('should stay locked when unlocking with a wrong key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.lock();
+
+      expect(await catchAsyncErrorMessage(test.unlock('wrong key'))).toEqual(WRONG_KEY_ERROR_MESSAGE);
+      expect(test.locked).toBeTrue();
+    });
+
+    it('should notify the listeners of locking and unlocking', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const locked = jasmine.createSpy('locked');
+      const unlocked = jasmine.createSpy('unlocked');
+      test.on('locked', locked);
+      test.on('unlocked', unlocked);
+
+      await test.lock();
+      await test.lock();
+      expect(locked).toHaveBeenCalledTimes(1);
+      expect(unlocked).not.toHaveBeenCalled();
+
+      await test.unlock('any key');
+      expect(unlocked).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lock after the idle time', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', lockAfter: 50 }));
+      const locked = new Promise((resolve) => test.on('locked', () => resolve(true)));
+      await test.set('any key', 'any value');
+
+      expect(await locked).toBeTrue();
+      expect(await catchAsyncErrorMessage(test.get('any key'))).toEqual(LOCKED_ERROR_MESSAGE);
+    });
+
+    it('should lock when the page is hidden', async () => {
+      const removeEventListener = spyOn(document, 'removeEventListener').and.callThrough();
+      const test = add(new EncryptStorage({ backend, key: 'any key', lockWhenHidden: true }));
+      await test.getStoreName();
+      const locked = new Promise((resolve) => test.on('locked', () => resolve(true)));
+
+      spyOnProperty(document, 'visibilityState').and.returnValue('hidden');
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(await locked).toBeTrue();
+
+      await test.close();
+      expect(removeEventListener).toHaveBeenCalledWith('visibilitychange', jasmine.any(Function));
+    });
+  });
+
+  describe('Backups', () => {
+    const RESTORED_DB = 'restored-db';
+
+    it('should restore a backup into another store', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany<unknown>([['key 1', 'value 1'], ['key 2', { any: 2 }]]);
+
+      const backup = await test.exportBackup();
+      const restored = add(await EncryptStorage.importBackup(backup, 'any key', { backend, db: RESTORED_DB }));
+
+      expect(await restored.getMany<unknown>(['key 1', 'key 2'])).toEqual(['value 1', { any: 2 }]);
+      expect(await add(new EncryptStorage({ backend, key: 'any key', db: RESTORED_DB })).get('key 1')).toBe('value 1');
+    });
+
+    it('should keep the key derivation parameters and only encrypted records in the backup', async () => {
+      const salt = new Uint8Array([1, 2, 3, 4]);
+      const test = add(new EncryptStorage({ backend, key: 'any key', salt, iterations: 1000 }));
+      await test.set('any plain key', 'any plain value');
+
+      const json = await (await test.exportBackup()).text();
+      const bundle = parseRecord<IBackupBundle>(json);
+
+      expect(bundle.version).toBe(1);
+      expect(bundle.kdf).toEqual({ algorithm: 'PBKDF2', hash: 'SHA-256', salt, iterations: 1000 });
+      expect(json).not.toContain('any plain');
+      expect(json).not.toContain(btoa('any plain'));
+    });
+
+    it('should restore the entries of older formats', async () => {
+      const test = await createLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+      const restored = add(await EncryptStorage.importBackup(await test.exportBackup(), 'any key', { backend, db: RESTORED_DB }));
+
+      expect(await restored.get('legacy key')).toBe('legacy value');
+    });
+
+    it('should merge the backup into the existing entries by default', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'backup value');
+      const target = add(new EncryptStorage({ backend, key: 'any key', db: RESTORED_DB }));
+      await target.setMany([['any key', 'target value'], ['other key', 'other value']]);
+
+      const restored = add(await EncryptStorage.importBackup(await test.exportBackup(), 'any key', { backend, db: RESTORED_DB }));
+
+      expect(await restored.getMany(['any key', 'other key'])).toEqual(['backup value', 'other value']);
+    });
+
+    it('should replace the existing entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'backup value');
+      const target = add(new EncryptStorage({ backend, key: 'any key', db: RESTORED_DB }));
+      await target.set('other key', 'other value');
+
+      const options = { backend, db: RESTORED_DB, mode: 'replace' as const };
+      const restored = add(await EncryptStorage.importBackup(await test.exportBackup(), 'any key', options));
+
+      expect(await restored.getMany(['any key', 'other key'])).toEqual(['backup value', undefined]);
+    });
+
+    it('should not restore a backup with a wrong key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+
+      const result = EncryptStorage.importBackup(await test.exportBackup(), 'wrong key', { backend, db: RESTORED_DB });
+
+      expect(await catchAsyncErrorMessage(result)).toEqual(WRONG_KEY_ERROR_MESSAGE);
+    });
+
+    it('should not restore a tampered backup', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany([['any key', 'any value'], ['other key', 'other value']]);
+
+      const bundle = parseRecord<IBackupBundle>(await (await test.exportBackup()).text());
+      const id = await getLookupId(test, 'any key');
+      const otherId = await getLookupId(test, 'other key');
+      const record = bundle.records.find(([recordKey]) => isSameBuffer(recordKey, id))!;
+      record[1] = bundle.records.find(([recordKey]) => isSameBuffer(recordKey, otherId))![1];
+
+      const result = EncryptStorage.importBackup(stringifyRecord(bundle), 'any key', { backend, db: RESTORED_DB });
+
+      expect(await catchAsyncErrorMessage(result)).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+    });
+
+    it('should reject files that are not backups of a supported version', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const bundle = parseRecord<IBackupBundle>(await (await test.exportBackup()).text());
+
+      await expectAsync(EncryptStorage.importBackup('not a backup', 'any key', { backend }))
+        .toBeRejectedWithError(UnsupportedFormatError, INVALID_BACKUP_ERROR_MESSAGE);
+      await expectAsync(EncryptStorage.importBackup(stringifyRecord({ ...bundle, records: 'any records' }), 'any key', { backend }))
+        .toBeRejectedWithError(UnsupportedFormatError, INVALID_BACKUP_ERROR_MESSAGE);
+      await expectAsync(EncryptStorage.importBackup(stringifyRecord({ ...bundle, version: 2 }), 'any key', { backend }))
+        .toBeRejectedWithError(UnsupportedFormatError, UNSUPPORTED_BACKUP_VERSION_ERROR_MESSAGE);
+    });
+
+    it('should close the target store when the backup can\'t be restored into it', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      await add(new EncryptStorage({ backend, key: 'other key', db: RESTORED_DB })).ready();
+      const close = spyOn(EncryptStorage.prototype, 'close').and.callThrough();
+
+      const result = EncryptStorage.importBackup(await test.exportBackup(), 'any key', { backend, db: RESTORED_DB });
+
+      await expectAsync(result).toBeRejectedWithError(WrongKeyError);
+      expect(close).toHaveBeenCalledTimes(1);
+      await expectAsync(close.calls.mostRecent().returnValue).toBeResolved();
+    });
+  });
+
+  describe('Listing entries', () => {
+    const collect = async <T>(iterator: AsyncIterable<T>): Promise<T[]> => {
+      const items: T[] = [];
+
+      for await (const item of iterator) {
+        items.push(item);
+      }
+
+      return items;
+    };
+
+    it('should list the keys of the stored entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany([['key 1', 'value 1'], ['key 2', 'value 2']]);
+
+      expect((await collect(test.keys())).sort()).toEqual(['key 1', 'key 2']);
+    });
+
+    it('should list the entries with the original values', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.setMany<unknown>([['key 1', 'value 1'], ['key 2', { any: 2 }]]);
+
+      const entries = await collect(test.entries<unknown>());
+
+      expect(entries.sort(([a], [b]) => a.localeCompare(b))).toEqual([['key 1', 'value 1'], ['key 2', { any: 2 }]]);
+    });
+
+    it('should iterate over the storage with for await', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+
+      expect(await collect(test)).toEqual([['any key', 'any value']]);
+    });
+
+    it('should keep binary keys', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set(new Uint8Array([1, 2, 3]), 'any value');
+
+      expect(await collect(test.keys<Uint8Array>())).toEqual([new Uint8Array([1, 2, 3])]);
+    });
+
+    it('should not store the keys in plain text', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any plain key', 'any value');
+
+      const [store] = await test['_properties'];
+      const record = await store.get(await getLookupId(test, 'any plain key')) as Required<IEntryRecord>;
+
+      expect(decode(record.encryptedKey.ciphertext)).not.toContain('any plain key');
+    });
+
+    it('should skip the expired entries', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('expired key', 'any value', { expiresAt: Date.now() - 1 });
+      await test.set('valid key', 'any value', { ttl: 60000 });
+
+      expect(await collect(test.keys())).toEqual(['valid key']);
+      expect(await test.size()).toBe(1);
+    });
+
+    it('should list more entries than fit in a page', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      const entries = Array.from({ length: 250 }, (_, index): [string, string] => [`key ${index}`, `value ${index}`]);
+      await test.setMany(entries);
+
+      expect(await test.size()).toBe(250);
+      expect((await collect(test.keys())).sort()).toEqual(entries.map(([key]) => key).sort());
+    });
+
+    it('should check if an entry exists', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      await test.set('expired key', 'any value', { expiresAt: Date.now() - 1 });
+
+      expect(await test.has('any key')).toBeTrue();
+      expect(await test.has('expired key')).toBeFalse();
+      expect(await test.has('missing key')).toBeFalse();
+    });
+
+    it('should list legacy entries once they are read', async () => {
+      const test = await createLegacyStore(backend, 'any key', [['legacy key', 'legacy value']]);
+
+      expect(await test.size()).toBe(0);
+      expect(await test.get('legacy key')).toBe('legacy value');
+      expect(await collect(test.entries())).toEqual([['legacy key', 'legacy value']]);
+    });
+
+    it('should keep the keys listed after re-keying', async () => {
+      const test = await createLegacyStore(backend, 'old key', [['legacy key', 'legacy value']]);
+      await test.get('legacy key');
+      await test.set('any key', 'any value');
+      await test.rekey('new key');
+
+      expect((await collect(add(new EncryptStorage({ backend, key: 'new key' })).keys())).sort()).toEqual(['any key', 'legacy key']);
+    });
+  });
+
+  describe('Re-keying the store', () => {
+    it('should read the existing values with the new key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'old key' }));
+      await test.set('any key 1', 'any value 1');
+      await test.set('any key 2', { any: 'value 2' });
+      await test.rekey('new key');
+
+      const reopened = add(new EncryptStorage({ backend, key: 'new key' }));
+
+      expect(await test.get('any key 1')).toBe('any value 1');
+      expect(await reopened.get('any key 1')).toBe('any value 1');
+      expect(await reopened.get<{ any: string }>('any key 2')).toEqual({ any: 'value 2' });
+    });
+
+    it('should not read the existing values with the old key anymore', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'old key' }));
+      await test.set('any key', 'any value');
+      await test.rekey('new key');
+
+      const reopened = add(new EncryptStorage({ backend, key: 'old key' }));
+
+      expect(await catchAsyncErrorMessage(reopened.get('any key'))).toEqual(WRONG_KEY_ERROR_MESSAGE);
+    });
+
+    it('should use the given salt and iterations', async () => {
+      const salt = new Uint8Array([4, 3, 2, 1]);
+      const test = add(new EncryptStorage({ backend, key: 'old key' }));
+      await test.set('any key', 'any value');
+      await test.rekey('new key', { salt, iterations: 1000 });
+
+      const reopened = add(new EncryptStorage({ backend, key: 'new key', salt, iterations: 1000 }));
+
+      expect(await reopened.get('any key')).toBe('any value');
+    });
+
+    it('should report the progress of re-encrypting entries', async () => {
+      const test = await createLegacyStore(backend, 'old key', [['any key 1', 'any value 1'], ['any key 2', 'any value 2']]);
+      const onProgress = jasmine.createSpy('onProgress');
+      await test.rekey('new key', { onProgress });
+
+      expect(onProgress.calls.allArgs()).toEqual([[{ done: 1, total: 2 }], [{ done: 2, total: 2 }]]);
+    });
+
+    it('should re-key entries saved with bare nonces', async () => {
+      const test = await createLegacyStore(backend, 'old key', [['legacy key 1', 'legacy value 1'], ['legacy key 2', 'legacy value 2']]);
+      await test.rekey('new key');
+
+      const reopened = add(new EncryptStorage({ backend, key: 'new key' }));
+
+      expect(await reopened.get('legacy key 1')).toBe('legacy value 1');
+      expect(await reopened.get('legacy key 2')).toBe('legacy value 2');
+    });
+
+    it('should only re-wrap the data encryption key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'old key' }));
+      await test.set('any key', 'any value');
+
+      const [store] = await test['_properties'];
+      const hashKey = await getLookupId(test, 'any key');
+      const encrypted = await store.get(hashKey);
+      await test.rekey('new key');
+
+      expect(await store.get(hashKey)).toEqual(encrypted);
+      expect(await test.get('any key')).toBe('any value');
+    });
+
+    it('should add a data encryption key to stores created without one', async () => {
+      const test = await createLegacyStore(backend, 'old key', [['legacy key', 'legacy value']]);
+      await test.rekey('new key');
+
+      const [store] = await test['_properties'];
+
+      expect(await store.get(await generateHash('o-data-key'))).toBeDefined();
+      expect(await add(new EncryptStorage({ backend, key: 'new key' })).get('legacy key')).toBe('legacy value');
+    });
+
+    it('should keep the store readable with the old key when a record fails authentication', async () => {
+      await writeTamperedLegacyStore(backend, 'old key');
+      const test = add(new EncryptStorage({ backend, key: 'old key' }));
+
+      expect(await catchAsyncErrorMessage(test.rekey('new key'))).toEqual(AUTHENTICITY_ERROR_MESSAGE);
+      expect(await test.get('any key')).toBe('any value');
+      expect(await add(new EncryptStorage({ backend, key: 'old key' })).get('any key')).toBe('any value');
+    });
+  });
+
+  describe('Device mode', () => {
+    // shared by all the stores, the other tests expect no database left
+    afterEach(async () => {
+      await new Promise((resolve) => indexedDB.deleteDatabase(DEVICE_KEYS_DB).onsuccess = resolve);
+    });
+
+    const hasDeviceKey = async (db = 'default-db', name = 'default-storage-name'): Promise<boolean> => {
+      return await loadDeviceKey(await generateHash(db), await generateHash(name), undefined, false) !== undefined;
+    };
+
+    it('should open the store with a key kept on the device', async () => {
+      const test = add(new EncryptStorage({ backend, device: true }));
+      await test.set('any key', 'any value');
+      const [, deviceKey] = await test['_properties'];
+
+      const reopened = add(new EncryptStorage({ backend, device: true }));
+
+      expect(deviceKey.extractable).toBeFalse();
+      expect(deviceKey.algorithm.name).toBe('AES-GCM');
+      expect(await reopened.get('any key')).toBe('any value');
+    });
+
+    it('should not mix the device and passphrase modes', async () => {
+      await add(new EncryptStorage({ backend, key: 'any key' })).set('any key', 'any value');
+      await add(new EncryptStorage({ backend, device: true, name: 'device-store' })).set('any key', 'any value');
+
+      await expectAsync(add(new EncryptStorage({ backend, device: true })).ready()).toBeRejectedWithError(MissingKeyError, MISSING_DEVICE_KEY_ERROR_MESSAGE);
+      await expectAsync(add(new EncryptStorage({ backend, key: 'any key', name: 'device-store' })).ready()).toBeRejectedWithError(WrongKeyError);
+      expect(await hasDeviceKey()).toBeFalse();
+    });
+
+    it('should convert between the passphrase and device modes', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      await test.rememberDevice();
+
+      expect(await add(new EncryptStorage({ backend, device: true })).get('any key')).toBe('any value');
+      await expectAsync(add(new EncryptStorage({ backend, key: 'any key' })).ready()).toBeRejectedWithError(WrongKeyError);
+
+      await test.forgetDevice('new key');
+
+      expect(await add(new EncryptStorage({ backend, key: 'new key' })).get('any key')).toBe('any value');
+      expect(await hasDeviceKey()).toBeFalse();
+      await expectAsync(add(new EncryptStorage({ backend, device: true })).ready()).toBeRejectedWithError(MissingKeyError);
+    });
+
+    it('should unlock without a passphrase', async () => {
+      const test = add(new EncryptStorage({ backend, device: true }));
+      await test.set('any key', 'any value');
+      await test.lock();
+      await test.unlock();
+
+      expect(await test.get('any key')).toBe('any value');
+    });
+
+    it('should not export a backup', async () => {
+      const test = add(new EncryptStorage({ backend, device: true }));
+
+      await expectAsync(test.exportBackup()).toBeRejectedWithError(KeyNotExportableError, DEVICE_BACKUP_ERROR_MESSAGE);
+    });
+
+    it('should not take an AES-GCM key of the caller for a device key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      const aesKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+      await expectAsync(test.rekey(aesKey)).toBeRejected();
+      await expectAsync(test.exportBackup()).toBeResolved();
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('any key')).toBe('any value');
+    });
+
+    it('should destroy the device key with the database', async () => {
+      const test = new EncryptStorage({ backend, device: true });
+      await test.set('any key', 'any value');
+
+      expect(await hasDeviceKey()).toBeTrue();
+
+      await test.deleteDB();
+
+      expect(await hasDeviceKey()).toBeFalse();
+    });
+
+    it('should destroy the device key when the deletion of the database is blocked', async () => {
+      const test = new EncryptStorage({ backend, device: true });
+      await test.set('any key', 'any value');
+      const [store] = await test['_properties'];
+      const destroy = spyOn(store, 'destroy').and.rejectWith(new StoreBlockedError('any message'));
+
+      await expectAsync(test.deleteDB()).toBeRejectedWithError(StoreBlockedError);
+      expect(await hasDeviceKey()).toBeFalse();
+
+      destroy.and.callThrough();
+      await test.deleteDB();
+    });
+  });
+
+  describe('Stores of a database', () => {
+    it('should keep the entries of the stores of a database apart', async () => {
+      const first = add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'first' }));
+      await first.set('any key', 'first value');
+      const second = add(new EncryptStorage({ backend, key: 'other key', db: 'shared-db', name: 'second' }));
+      await second.set('any key', 'second value');
+
+      expect(await first.get('any key')).toBe('first value');
+      expect(await second.get('any key')).toBe('second value');
+    });
+
+    it('should list the stores of the database', async () => {
+      const first = add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'first' }));
+      const second = add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'second' }));
+      await Promise.all([first.ready(), second.ready()]);
+
+      expect((await first.listStores()).sort()).toEqual([await first.getStoreName(), await second.getStoreName()].sort());
+    });
+
+    it('should drop another store of the database', async () => {
+      const first = add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'first' }));
+      await first.set('any key', 'first value');
+      const second = new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'second' });
+      await second.set('any key', 'second value');
+      const secondName = await second.getStoreName();
+      await second.close();
+
+      await first.dropStore('second');
+
+      expect(await first.listStores()).not.toContain(secondName);
+      expect(await first.get('any key')).toBe('first value');
+      expect(await add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'second' })).get('any key')).toBeUndefined();
+    });
+
+    it('should close the storage when dropping its own store', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'first' }));
+      await test.set('any key', 'any value');
+      const name = await test.getStoreName();
+
+      await test.dropStore('first');
+
+      await expectAsync(test.get('any key')).toBeRejectedWithError(StoreClosedError);
+      expect(await add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'other' })).listStores()).not.toContain(name);
+    });
+
+    // only IndexedDB databases have versions and connections
+    if (backend === 'indexedDB') {
+      it('should create the stores opened at the same time', async () => {
+        const stores = ['first', 'second', 'third'].map((name) => add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name })));
+        await Promise.all(stores.map((test, index) => test.set('any key', `value ${index}`)));
+
+        expect(await Promise.all(stores.map((test) => test.get('any key')))).toEqual(['value 0', 'value 1', 'value 2']);
+      });
+
+      it('should reject the operations of a storage whose database was deleted by another one', async () => {
+        const first = add(new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'first' }));
+        const second = new EncryptStorage({ backend, key: 'any key', db: 'shared-db', name: 'second' });
+        await Promise.all([first.ready(), second.ready()]);
+
+        await second.deleteDB();
+
+        await expectAsync(first.get('any key')).toBeRejectedWithError(StoreClosedError);
+        expect((await indexedDB.databases()).length).toBe(0);
+      });
+    }
+  });
+
+  describe('Clearing data', () => {
+    it('should clear all existing data but the salt', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key 1', 'any data 1');
+      await test.set('any key 2', 'any data 2');
+      await test.clear();
+
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
+      let result = allKeys.length !== 1;
+
+      if(!result) {
+        const saltHash = await generateHash('o-salt');
+        result = decode(allKeys[0]) === decode(saltHash)
+      }
+
+      expect(result).toBeTrue();
+    });
+
+    // the object store and database only exist in IndexedDB
+    if (backend === 'indexedDB') {
+      it('should not delete the store', async () => {
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        await test.set('any key', 'any data');
+        await test.clear();
+
+        const db = await test.getDB();
+
+        expect(db.objectStoreNames.length !== 0).toBeTrue();
+      });
+
+      it('should not delete the db', async () => {
+        const test = add(new EncryptStorage({ backend, key: 'any key' }));
+        await test.set('any key', 'any data');
+        await test.clear();
+        const allDbs = await window.indexedDB.databases();
+
+        expect(allDbs.length !== 0).toBeTrue();
+      });
+    }
+
+    it('should keep the keys of the store when clearing fails', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any key' }));
+      await test.set('any key', 'any value');
+      const [store] = await test['_properties'];
+      const transaction = store.transaction.bind(store);
+      spyOn(store, 'transaction').and.callFake((mode, operations) => transaction(mode, async (tx) => {
+        await operations(tx);
+
+        throw new Error('any error');
+      }));
+
+      await expectAsync(test.clear()).toBeRejected();
+
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('any key')).toBe('any value');
+    });
+
+    it('should be able to set new values after clearing and get it from another instance', async () => {
+      const key = 'raw key';
+      const ikey = 'any key';
+      const value = 'any value';
+      let test = add(new EncryptStorage({ backend, key, log: true }));
+      await test.set(ikey, value);
+      await test.clear();
+      await test.set(ikey, value);
+      test = add(new EncryptStorage({ backend, key }));
+
+      expect(await test.get(ikey)).toBe(value);
+    });
+  });
+
+  describe('when deleting individual data', () => {
+    it('should keep the salt even if it deletes the only existing data', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any' }));
+      const key = 'any key 1';
+      await test.set(key, 'any data 1');
+      await test.delete(key);
+
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
+      let result = allKeys.length !== 1;
+
+      if(!result) {
+        const saltHash = await generateHash('o-salt');
+        result = decode(allKeys[0]) === decode(saltHash)
+      }
+
+      expect(result).toBeTrue();
+    });
+
+    it('should delete data only for the giving key', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any' }));
+      const key = 'any key 1';
+      await test.set(key, 'any data 1');
+      await test.set('any key 2', 'any data 2');
+      await test.delete(key);
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
+
+      expect(allKeys.length >= 1).toBeTrue();
+    });
+
+    it('should be able to set new data after deleting one', async () => {
+      const test = add(new EncryptStorage({ backend, key: 'any' }));
+      const key = 'any key 1';
+      await test.set(key, 'any data 1');
+      await test.delete(key);
+      await test.set('any key 2', 'any data 2');
+
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
+
+      expect(allKeys.length >= 1).toBeTrue();
+    });
+
+    it('should not be able to get the deleted data from another instance', async () => {
+      const key = 'raw key';
+      const ikey = 'any key';
+      let test1 = add(new EncryptStorage({ backend, key }));
+      await test1.set(ikey, 'any data');
+      await test1.delete(ikey);
+      const test2 = add(new EncryptStorage({ backend, key }));
+      expect(await test2.get(ikey)).toBeUndefined();
+    });
+  });
+
+  describe('when deleting the database', () => {
+    it('should delete the data base', async () => {
+      const test = new EncryptStorage({ backend, key: 'any key' });
+      await test.set('any key', 'any data');
+      await test.deleteDB();
+      const allDbs = await window.indexedDB.databases();
+
+      expect(allDbs.length !== 0).toBeFalsy();
+      expect(await add(new EncryptStorage({ backend, key: 'any key' })).get('any key')).toBeUndefined();
+    });
+  });
+
+  describe('when closing the database', () => {
+    it('should have close the database with saved data', async () => {
+      let test = new EncryptStorage({ backend, key: 'any key' });
+      await test.set('any key', 'any data');
+      await test.close();
+      test = add(new EncryptStorage({ backend, key: 'any key' }));
+
+      const [store] = await test['_properties'];
+      const allKeys = await getAllKeys(store);
+
+      expect(allKeys.length >= 1).toBeTrue();
+    });
+  });
+});
+
+BACKENDS.forEach(describeStorage);
+
+describe('ChangeChannel without BroadcastChannel', () => {
+  const { BroadcastChannel } = globalThis;
+
+  beforeEach(() => {
+    (globalThis as { BroadcastChannel?: unknown }).BroadcastChannel = undefined;
+  });
+
+  afterEach(() => {
+    globalThis.BroadcastChannel = BroadcastChannel;
+  });
+
+  it('should send the messages through the storage event', () => {
+    const scope = globalThis as { addEventListener?: unknown, removeEventListener?: unknown };
+    const addEventListener = scope.addEventListener = jasmine.createSpy('addEventListener');
+    const removeEventListener = scope.removeEventListener = jasmine.createSpy('removeEventListener');
+    const setItem = spyOn(localStorage, 'setItem').and.callThrough();
+    const onMessage = jasmine.createSpy('onMessage');
+    const channel = new ChangeChannel('any channel', onMessage);
+
+    channel.post({ type: 'delete', ids: ['any id'] });
+    const [key, newValue] = setItem.calls.mostRecent().args;
+    const [, onStorage] = addEventListener.calls.mostRecent().args;
+    onStorage({ key, newValue });
+    onStorage({ key, newValue: null });
+    channel.close();
+
+    expect(onMessage.calls.allArgs()).toEqual([[{ type: 'delete', ids: ['any id'] }]]);
+    expect(localStorage.getItem(key)).toBeNull();
+    expect(removeEventListener).toHaveBeenCalledWith('storage', onStorage);
+
+    delete scope.addEventListener;
+    delete scope.removeEventListener;
   });
 });
@@ -0,0 +1,168 @@
+import { EncryptStorage, LOCKED_ERROR_MESSAGE, SYNC_STORAGE_NOT_READY_ERROR_MESSAGE, createSyncStorage } from "../scripts/storage";
+import { StoreLockedError } from "../scripts/errors";
+
+describe('SyncStorage', () => {
+  let test: EncryptStorage;
+
+  beforeEach(() => {
+    test = new EncryptStorage({ backend: 'memory', key: 'any key' });
+  });
+
+  afterEach(async () => {
+    await test.deleteDB();
+  });
+
+  it('should load the stored entries with string keys and values', async () => {
+    await test.setMany<unknown>([['key 1', 'value 1'], ['key 2', { any: 2 }], [new Uint8Array([3]), 'value 3']]);
+
+    const storage = createSyncStorage(test);
+    await storage.ready;
+
+    expect(storage.length).toBe(1);
+    expect(storage.key(0)).toBe('key 1');
+    expect(storage.key(1)).toBeNull();
+    expect(storage.getItem('key 1')).toBe('value 1');
+    expect(storage.getItem('key 2')).toBeNull();
+  });
+
+  it('should not be used before being loaded', async () => {
+    const storage = createSyncStorage(test);
+
+    expect(() => storage.getItem('any key')).toThrowError(SYNC_STORAGE_NOT_READY_ERROR_MESSAGE);
+    await storage.ready;
+  });
+
+  it('should read the writes at once and save them in the background', async () => {
+    const storage = createSyncStorage(test);
+    await storage.ready;
+
+    storage.setItem('key 1', 'value 1');
+    storage.setItem('key 2', 2 as unknown as string);
+    storage.removeItem('key 1');
+
+    expect(storage.getItem('key 1')).toBeNull();
+    expect(storage.getItem('key 2')).toBe('2');
+    expect(storage.length).toBe(1);
+
+    await storage.flush();
+
+    expect(await test.getMany(['key 1', 'key 2'])).toEqual([undefined, '2']);
+  });
+
+  it('should save the writes in order', async () => {
+    const storage = createSyncStorage(test);
+    await storage.ready;
+
+    storage.setItem('any key', 'value 1');
+    await Promise.resolve();
+    storage.clear();
+    storage.setItem('other key', 'value 2');
+    await storage.flush();
+
+    expect(await test.getMany(['any key', 'other key'])).toEqual([undefined, 'value 2']);
+  });
+
+  it('should save the writes of a tick together', async () => {
+    const storage = createSyncStorage(test);
+    await storage.ready;
+    const setMany = spyOn(test, 'setMany').and.callThrough();
+
+    storage.setItem('key 1', 'value 1');
+    storage.setItem('key 2', 'value 2');
+    await storage.flush();
+
+    expect(setMany).toHaveBeenCalledOnceWith([['key 1', 'value 1'], ['key 2', 'value 2']]);
+  });
+
+  it('should report the writes that could not be saved', async () => {
+    const onError = jasmine.createSpy('onError');
+    const storage = createSyncStorage(test, { onError });
+    await storage.ready;
+    const error = new Error('any error');
+    spyOn(test, 'setMany').and.rejectWith(error);
+
+    storage.setItem('any key', 'any value');
+
+    await expectAsync(storage.flush()).toBeRejectedWith(error);
+    expect(onError).toHaveBeenCalledOnceWith(error);
+    await expectAsync(storage.flush()).toBeResolved();
+  });
+
+  it('should apply the changes made through the storage', async () => {
+    await test.setMany([['key 1', 'value 1'], ['key 2', 'value 2']]);
+    const storage = createSyncStorage(test);
+    await storage.ready;
+
+    await test.set('key 1', 'other value');
+    await test.set<unknown>('key 2', { any: 2 });
+    await test.set('key 3', 'value 3');
+
+    expect(storage.getItem('key 1')).toBe('other value');
+    expect(storage.getItem('key 2')).toBeNull();
+    expect(storage.getItem('key 3')).toBe('value 3');
+
+    await test.delete('key 1');
+    expect(storage.getItem('key 1')).toBeNull();
+
+    await test.clear();
+    expect(storage.length).toBe(0);
+  });
+
+  it('should keep the writes not saved yet over the changes of the storage', async () => {
+    const storage = createSyncStorage(test);
+    await storage.ready;
+
+    storage.setItem('any key', 'value 1');
+    await storage.flush();
+    storage.setItem('any key', 'value 2');
+    storage.clear();
+    storage.setItem('other key', 'value 3');
+    await storage.flush();
+
+    expect(storage.getItem('any key')).toBeNull();
+    expect(storage.getItem('other key')).toBe('value 3');
+    expect(await test.getMany(['any key', 'other key'])).toEqual([undefined, 'value 3']);
+  });
+
+  it('should forget the entries while the storage is locked', async () => {
+    await test.set('any key', 'any value');
+    const storage = createSyncStorage(test);
+    await storage.ready;
+
+    await test.lock();
+
+    expect(storage['items']).toBeUndefined();
+    expect(() => storage.getItem('any key')).toThrowError(StoreLockedError, LOCKED_ERROR_MESSAGE);
+    expect(() => storage.length).toThrowError(StoreLockedError);
+    expect(() => storage.setItem('any key', 'other value')).toThrowError(StoreLockedError);
+
+    await test.unlock('any key');
+    await storage.ready;
+
+    expect(storage.getItem('any key')).toBe('any value');
+  });
+
+  it('should not keep the entries decrypted while the storage was being locked', async () => {
+    await test.set('any key', 'any value');
+    const storage = createSyncStorage(test);
+    await test.lock();
+
+    await expectAsync(storage.ready).toBeRejectedWithError(StoreLockedError);
+    expect(storage['items']).toBeUndefined();
+  });
+
+  it('should drop the entries deleted in other tabs', async () => {
+    await test.setMany([['key 1', 'value 1'], ['key 2', 'value 2']]);
+    const storage = createSyncStorage(test);
+    await storage.ready;
+    const other = new EncryptStorage({ backend: 'memory', key: 'any key' });
+
+    // other tabs only send the lookup identifier of the deleted entries
+    await other.delete('key 1');
+    test['_dispatch']({ type: 'delete', remote: true });
+    await storage.flush();
+
+    expect(storage.getItem('key 1')).toBeNull();
+    expect(storage.getItem('key 2')).toBe('value 2');
+  });
+});
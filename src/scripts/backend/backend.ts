@@ -0,0 +1,62 @@
+import { decode, toBase64, toHex } from "../crypto";
+import { UnsupportedEnvironmentError } from "../errors";
+import { BackendType, StorageBackend } from "./backend.type";
+import { IndexedDBBackend } from "./indexeddb.backend";
+import { MemoryBackend } from "./memory.backend";
+import { WebStorageBackend } from "./web-storage.backend";
+
+/**
+ * Opens the backend for the hashed database and store names, a given backend instance is used as is.
+ *
+ * @param backend The backend type or instance. Default: 'indexedDB'.
+ * @param dbHash Hash of the database name.
+ * @param storeHash Hash of the store name.
+ * @param indexedDB IndexedDB implementation for the 'indexedDB' backend. Default: the global one.
+ * @returns Promise with the opened backend.
+ */
+export async function openBackend(
+  backend: BackendType | StorageBackend = 'indexedDB',
+  dbHash: ArrayBuffer,
+  storeHash: ArrayBuffer,
+  indexedDB?: IDBFactory
+): Promise<StorageBackend> {
+  if (typeof backend !== 'string') {
+    return backend;
+  }
+
+  switch (backend) {
+    case 'indexedDB':
+      // databases created when the names were the hashes decoded as UTF-8 keep them, new ones use the lossless hex
+      return await IndexedDBBackend.exists(decode(dbHash), indexedDB)
+        ? IndexedDBBackend.open(decode(dbHash), decode(storeHash), indexedDB)
+        : IndexedDBBackend.open(toHex(dbHash), toHex(storeHash), indexedDB);
+    case 'localStorage':
+    case 'sessionStorage':
+      // not available in workers
+      if (typeof globalThis[backend] === 'undefined') {
+        throw new UnsupportedEnvironmentError(`${backend} is not available in this environment.`);
+      }
+
+      return new WebStorageBackend(globalThis[backend], toBase64(dbHash), toBase64(storeHash));
+    case 'memory':
+      return new MemoryBackend(toBase64(dbHash), toBase64(storeHash));
+    default:
+      throw new Error(`Unsupported backend: ${backend}.`);
+  }
+}
+
+/**
+ * Name of another store of the same database, encoded like the names given by `openBackend`.
+ *
+ * @param store The backend opened by `openBackend`.
+ * @param dbHash Hash of the database name.
+ * @param storeHash Hash of the other store name.
+ * @returns The name of the other store inside the backend.
+ */
+export function getBackendStoreName(store: StorageBackend, dbHash: ArrayBuffer, storeHash: ArrayBuffer): string {
+  if (store instanceof IndexedDBBackend) {
+    return store.db.name === decode(dbHash) ? decode(storeHash) : toHex(storeHash);
+  }
+
+  return toBase64(storeHash);
+}
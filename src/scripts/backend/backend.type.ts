@@ -0,0 +1,43 @@
+/**
+ * Built-in backends, selected with the `backend` option of `IStorageConfig`.
+ */
+export type BackendType = 'indexedDB' | 'localStorage' | 'sessionStorage' | 'memory';
+
+/**
+ * Operations available inside `StorageBackend.transaction`.
+ */
+export interface IBackendTransaction {
+  // resolves undefined when there's no record for the key.
+  get(key: ArrayBuffer): Promise<unknown>;
+  put(key: ArrayBuffer, value: unknown): Promise<void>;
+  delete(key: ArrayBuffer): Promise<void>;
+  // deletes all the records of the store.
+  clear(): Promise<void>;
+}
+
+/**
+ * Where the encrypted records are kept. Records are keyed by hashes and hold structured values with binaries,
+ * backends which only store strings have to encode them.
+ */
+export interface StorageBackend extends IBackendTransaction {
+  // name of the store inside the backend.
+  readonly name: string;
+  /**
+   * Reads the records in key order, starting right after `after`.
+   * At most `limit` records are returned, all of them by default. The records whose key doesn't pass `filter` are
+   * skipped without being read.
+   */
+  iterate(after?: ArrayBuffer, limit?: number, filter?: (key: ArrayBuffer) => boolean): Promise<[ArrayBuffer, unknown][]>;
+  /**
+   * Runs the operations atomically: either all the writes are saved or none.
+   * Like IndexedDB transactions, the operations must not wait on anything but the transaction.
+   */
+  transaction<T>(mode: IDBTransactionMode, operations: (tx: IBackendTransaction) => Promise<T>): Promise<T>;
+  // names of all the stores of the database the store belongs to.
+  listStores(): Promise<string[]>;
+  // deletes another store of the same database with its records, nothing happens if it doesn't exist.
+  dropStore(name: string): Promise<void>;
+  close(): Promise<void>;
+  // deletes the whole database the store belongs to.
+  destroy(): Promise<void>;
+}
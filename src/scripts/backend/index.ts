@@ -0,0 +1,5 @@
+export * from './backend';
+export * from './backend.type';
+export * from './indexeddb.backend';
+export * from './memory.backend';
+export * from './web-storage.backend';
@@ -0,0 +1,341 @@
+import { IDBPDatabase, unwrap, wrap } from "idb";
+import { IBackendTransaction, StorageBackend } from "./backend.type";
+import { StoreBlockedError, StoreClosedError, UnsupportedEnvironmentError, fromStorageError } from "../errors";
+
+export const INDEXEDDB_UNAVAILABLE_ERROR_MESSAGE = `IndexedDB is not available in this environment, pass an implementation with the \`indexedDB\` option or use another backend.`;
+export const STORE_DELETED_ERROR_MESSAGE = `The store was deleted.`;
+export const DATABASE_BLOCKED_ERROR_MESSAGE = `The database is kept open by another connection, e.g. in another tab.`;
+
+const getFactory = (factory?: IDBFactory): IDBFactory => {
+  const idbFactory = factory ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+
+  if (!idbFactory) {
+    throw new UnsupportedEnvironmentError(INDEXEDDB_UNAVAILABLE_ERROR_MESSAGE);
+  }
+
+  return idbFactory;
+};
+
+// connections closed by a `versionchange`: true if the database was deleted, false if it was upgraded
+const outdatedConnections = new WeakMap<IDBDatabase, boolean>();
+
+/**
+ * Rejects once the request is blocked: a connection to the database didn't close on `versionchange`.
+ * The request stays pending until that connection closes.
+ */
+const whenBlocked = (request: IDBOpenDBRequest): Promise<never> => new Promise((resolve, reject) => {
+  request.addEventListener('blocked', () => reject(new StoreBlockedError(DATABASE_BLOCKED_ERROR_MESSAGE)));
+});
+
+/**
+ * Opens a connection which closes on `versionchange`, so that the upgrades and deletions by other connections can go on.
+ * A connection closed that way before it's delivered is opened again, at the current version.
+ *
+ * @throws StoreBlockedError if the upgrade is blocked by a connection that doesn't close, it's given up once unblocked.
+ */
+const openRequest = (
+  factory: IDBFactory,
+  dbName: string,
+  version: number | undefined,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBPDatabase> => {
+  const request = version === undefined ? factory.open(dbName) : factory.open(dbName, version);
+  const blocked = whenBlocked(request);
+  let outdated = false;
+  let givenUp = false;
+
+  blocked.catch(() => {
+    givenUp = true;
+  });
+
+  // the connection exists from the upgrade on, another upgrade may be waiting for it before it's delivered
+  const watch = (): void => {
+    const db = request.result;
+
+    db.onversionchange = ({ newVersion }) => {
+      db.close();
+      outdated = true;
+      outdatedConnections.set(db, newVersion === null);
+    };
+  };
+
+  request.addEventListener('upgradeneeded', () => {
+    if (givenUp) {
+      request.transaction?.abort();
+      request.result.close();
+
+      return;
+    }
+
+    watch();
+    upgrade(request.result);
+  });
+  request.addEventListener('success', watch);
+
+  return Promise.race([wrap(request) as Promise<IDBPDatabase>, blocked]).catch((e) => {
+    if (!outdated) {
+      throw e;
+    }
+
+    return openRequest(factory, dbName, undefined, upgrade);
+  });
+};
+
+/**
+ * Opens the database at its current version, or at the next one to run `upgrade` when `needsUpgrade`.
+ * When another connection upgrades the database meanwhile, e.g. in another tab, opening starts over.
+ * The upgrade waits for the other connections to close, like these ones do on `versionchange`.
+ *
+ * @throws StoreBlockedError if a connection doesn't close, see `openRequest`.
+ */
+const openDatabase = async (
+  factory: IDBFactory,
+  dbName: string,
+  needsUpgrade: (db: IDBPDatabase) => boolean,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBPDatabase> => {
+  let version: number | undefined;
+
+  for (;;) {
+    try {
+      const db = await openRequest(factory, dbName, version, upgrade);
+
+      if (!needsUpgrade(db)) {
+        return db;
+      }
+
+      version = db.version + 1;
+      db.close();
+    } catch (e) {
+      // the version was already taken by another upgrade
+      if (version === undefined || (e as DOMException)?.name !== 'VersionError') {
+        throw e;
+      }
+
+      version = undefined;
+    }
+  }
+};
+
+/**
+ * Keeps the records in an object store of an IndexedDB database, several stores can share a database.
+ * The connection closes when another one upgrades or deletes the database and is reopened on the next operation,
+ * unless its store was deleted meanwhile.
+ */
+export class IndexedDBBackend implements StorageBackend {
+  private closed = false;
+  private reconnection?: Promise<IDBPDatabase>;
+
+  private constructor(private connection: IDBPDatabase, readonly name: string, private readonly factory: IDBFactory) {}
+
+  /**
+   * The last opened connection, closed once outdated.
+   */
+  get db(): IDBPDatabase {
+    return this.connection;
+  }
+
+  /**
+   * Check if a database exists without creating it.
+   * Implementations without `databases()` open it instead, a missing database is aborted during its upgrade.
+   *
+   * @param factory IndexedDB implementation. Default: the global `indexedDB`.
+   * @throws INDEXEDDB_UNAVAILABLE_ERROR_MESSAGE if there's no IndexedDB.
+   */
+  static async exists(dbName: string, factory?: IDBFactory): Promise<boolean> {
+    const idbFactory = getFactory(factory);
+
+    if (typeof idbFactory.databases === 'function') {
+      return (await idbFactory.databases()).some(({ name }) => name === dbName);
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = idbFactory.open(dbName);
+      let aborted = false;
+
+      request.addEventListener('upgradeneeded', () => {
+        aborted = true;
+        request.transaction?.abort();
+      });
+      request.addEventListener('success', () => {
+        request.result.close();
+        resolve(true);
+      });
+      request.addEventListener('error', (event) => {
+        if (aborted) {
+          event.preventDefault();
+          resolve(false);
+        } else {
+          reject(request.error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Opens the database, upgrading it to the next version to create the object store when it's missing.
+   * The implementation's classes (`IDBRequest`, `IDBKeyRange`...) must be globals, e.g. with `fake-indexeddb/auto` in Node.
+   *
+   * @param factory IndexedDB implementation. Default: the global `indexedDB`.
+   * @throws INDEXEDDB_UNAVAILABLE_ERROR_MESSAGE if there's no IndexedDB.
+   * @throws StoreBlockedError if the upgrade is blocked by another connection that doesn't close.
+   */
+  static async open(dbName: string, name: string, factory?: IDBFactory): Promise<IndexedDBBackend> {
+    const idbFactory = getFactory(factory);
+    const db = await openDatabase(idbFactory, dbName, (db) => !db.objectStoreNames.contains(name), (db) => {
+      if (!db.objectStoreNames.contains(name)) {
+        db.createObjectStore(name);
+      }
+    });
+
+    return new IndexedDBBackend(db, name, idbFactory);
+  }
+
+  /**
+   * @returns Promise with an open connection, reopened if it was outdated.
+   * @throws StoreClosedError if the store or the database was deleted.
+   */
+  private connect(): Promise<IDBPDatabase> {
+    const deleted = outdatedConnections.get(unwrap(this.connection));
+
+    // the operations of a closed connection reject
+    if (this.closed || deleted === undefined) {
+      return Promise.resolve(this.connection);
+    }
+
+    // reopening would create the database again
+    if (deleted) {
+      return Promise.reject(new StoreClosedError(STORE_DELETED_ERROR_MESSAGE));
+    }
+
+    this.reconnection ??= openDatabase(this.factory, this.connection.name, () => false, () => undefined)
+      .then((db) => {
+        if (!db.objectStoreNames.contains(this.name)) {
+          db.close();
+
+          throw new StoreClosedError(STORE_DELETED_ERROR_MESSAGE);
+        }
+
+        this.connection = db;
+
+        return db;
+      })
+      .finally(() => {
+        this.reconnection = undefined;
+      });
+
+    return this.reconnection;
+  }
+
+  async get(key: ArrayBuffer): Promise<unknown> {
+    return (await this.connect()).get(this.name, key);
+  }
+
+  async put(key: ArrayBuffer, value: unknown): Promise<void> {
+    const db = await this.connect();
+
+    try {
+      await db.put(this.name, value, key);
+    } catch (e) {
+      throw fromStorageError(e);
+    }
+  }
+
+  async delete(key: ArrayBuffer): Promise<void> {
+    return (await this.connect()).delete(this.name, key);
+  }
+
+  async clear(): Promise<void> {
+    return (await this.connect()).clear(this.name);
+  }
+
+  async iterate(after?: ArrayBuffer, limit?: number, filter?: (key: ArrayBuffer) => boolean): Promise<[ArrayBuffer, unknown][]> {
+    const range = after === undefined ? undefined : IDBKeyRange.lowerBound(after, true);
+    const tx = (await this.connect()).transaction(this.name, 'readonly');
+
+    if (!filter) {
+      const [keys, values] = await Promise.all([tx.store.getAllKeys(range, limit), tx.store.getAll(range, limit), tx.done]);
+
+      return keys.map((key, index) => [key as ArrayBuffer, values[index]]);
+    }
+
+    // only the keys are read to be filtered, the values are read in the same transaction
+    const read = async (): Promise<[ArrayBuffer, unknown][]> => {
+      const keys = (await tx.store.getAllKeys(range) as ArrayBuffer[]).filter(filter).slice(0, limit);
+
+      return Promise.all(keys.map(async (key): Promise<[ArrayBuffer, unknown]> => [key, await tx.store.get(key)]));
+    };
+    const [records] = await Promise.all([read(), tx.done]);
+
+    return records;
+  }
+
+  async transaction<T>(mode: IDBTransactionMode, operations: (tx: IBackendTransaction) => Promise<T>): Promise<T> {
+    const tx = (await this.connect()).transaction(this.name, mode);
+
+    try {
+      const [result] = await Promise.all([
+        operations({
+          get: (key) => tx.store.get(key),
+          put: async (key, value) => {
+            await tx.store.put!(value, key);
+          },
+          delete: (key) => tx.store.delete!(key),
+          clear: () => tx.store.clear!()
+        }),
+        tx.done
+      ]);
+
+      return result;
+    } catch (e) {
+      try {
+        tx.abort();
+      } catch {
+        // the transaction may already be finished or aborted
+      }
+
+      throw fromStorageError(e);
+    }
+  }
+
+  async listStores(): Promise<string[]> {
+    return Array.from((await this.connect()).objectStoreNames);
+  }
+
+  /**
+   * Deletes the object store in an upgrade of the database, the other connections are reopened afterwards.
+   *
+   * @throws StoreBlockedError if the upgrade is blocked by another connection that doesn't close.
+   */
+  async dropStore(name: string): Promise<void> {
+    const current = await this.connect();
+
+    if (!current.objectStoreNames.contains(name)) {
+      return;
+    }
+
+    // this connection is outdated by the upgrade
+    const db = await openDatabase(this.factory, current.name, (db) => db.objectStoreNames.contains(name), (db) => {
+      if (db.objectStoreNames.contains(name)) {
+        db.deleteObjectStore(name);
+      }
+    });
+    db.close();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.connection.close();
+  }
+
+  /**
+   * @throws StoreBlockedError if another connection doesn't close, the database is deleted once it does.
+   */
+  async destroy(): Promise<void> {
+    this.closed = true;
+    this.connection.close();
+
+    const request = this.factory.deleteDatabase(this.connection.name);
+    await Promise.race([wrap(request), whenBlocked(request)]);
+  }
+}
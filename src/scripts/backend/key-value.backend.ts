@@ -0,0 +1,114 @@
+import { fromBase64, toBase64 } from "../crypto";
+import { IBackendTransaction, StorageBackend } from "./backend.type";
+import { fromStorageError } from "../errors";
+
+/**
+ * Base of the backends built on a synchronous key/value map, record keys are base64 encoded.
+ * Transactions stage their writes and apply them once the operations succeed, restoring the previous
+ * records if applying fails halfway.
+ */
+export abstract class KeyValueBackend implements StorageBackend {
+  abstract readonly name: string;
+
+  // undefined when there's no record for the key.
+  protected abstract read(key: string): unknown;
+  protected abstract write(key: string, value: unknown): void;
+  protected abstract remove(key: string): void;
+  // encoded keys of all the records of the store.
+  protected abstract list(): string[];
+  abstract listStores(): Promise<string[]>;
+  abstract dropStore(name: string): Promise<void>;
+  abstract destroy(): Promise<void>;
+
+  async get(key: ArrayBuffer): Promise<unknown> {
+    return this.read(toBase64(key));
+  }
+
+  async put(key: ArrayBuffer, value: unknown): Promise<void> {
+    this.apply(new Map([[toBase64(key), value]]));
+  }
+
+  async delete(key: ArrayBuffer): Promise<void> {
+    this.remove(toBase64(key));
+  }
+
+  async clear(): Promise<void> {
+    this.list().forEach((key) => this.remove(key));
+  }
+
+  async iterate(after?: ArrayBuffer, limit?: number, filter?: (key: ArrayBuffer) => boolean): Promise<[ArrayBuffer, unknown][]> {
+    const start = after === undefined ? undefined : toBase64(after);
+    const keys = this.list()
+      .filter((key) => start === undefined || key > start)
+      .sort()
+      .map((key): [string, ArrayBuffer] => [key, fromBase64(key).buffer])
+      .filter(([, key]) => filter?.(key) ?? true)
+      .slice(0, limit);
+
+    return keys.map(([encoded, key]) => [key, this.read(encoded)]);
+  }
+
+  async transaction<T>(mode: IDBTransactionMode, operations: (tx: IBackendTransaction) => Promise<T>): Promise<T> {
+    // undefined marks a deleted record
+    const staged = new Map<string, unknown>();
+    // the records that are not staged are deleted along
+    let cleared = false;
+
+    const result = await operations({
+      get: async (key) => {
+        const encoded = toBase64(key);
+
+        return staged.has(encoded) || cleared ? staged.get(encoded) : this.read(encoded);
+      },
+      put: async (key, value) => {
+        this.assertWritable(mode);
+        staged.set(toBase64(key), value);
+      },
+      delete: async (key) => {
+        this.assertWritable(mode);
+        staged.set(toBase64(key), undefined);
+      },
+      clear: async () => {
+        this.assertWritable(mode);
+        staged.clear();
+        cleared = true;
+      }
+    });
+
+    if (cleared) {
+      this.list().filter((key) => !staged.has(key)).forEach((key) => staged.set(key, undefined));
+    }
+
+    this.apply(staged);
+
+    return result;
+  }
+
+  async close(): Promise<void> {}
+
+  private assertWritable(mode: IDBTransactionMode): void {
+    if (mode === 'readonly') {
+      throw new Error('The transaction is read-only.');
+    }
+  }
+
+  private apply(changes: Map<string, unknown>): void {
+    const previous = new Map<string, unknown>();
+
+    try {
+      changes.forEach((value, key) => {
+        previous.set(key, this.read(key));
+
+        if (value === undefined) {
+          this.remove(key);
+        } else {
+          this.write(key, value);
+        }
+      });
+    } catch (e) {
+      previous.forEach((value, key) => value === undefined ? this.remove(key) : this.write(key, value));
+
+      throw fromStorageError(e);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { KeyValueBackend } from "./key-value.backend";
+
+/**
+ * Records of the in-memory databases, shared by the instances opening the same database and store.
+ */
+const databases = new Map<string, Map<string, Map<string, unknown>>>();
+
+/**
+ * Keeps the records in memory, e.g. for tests or when nothing can be persisted. Everything is lost on reload.
+ */
+export class MemoryBackend extends KeyValueBackend {
+  constructor(private readonly dbName: string, readonly name: string) {
+    super();
+  }
+
+  // undefined until the first record is written, so that reading doesn't create the store
+  private get records(): Map<string, unknown> | undefined {
+    return databases.get(this.dbName)?.get(this.name);
+  }
+
+  protected read(key: string): unknown {
+    return this.records?.get(key);
+  }
+
+  protected write(key: string, value: unknown): void {
+    const stores = databases.get(this.dbName) ?? new Map<string, Map<string, unknown>>();
+    const records = stores.get(this.name) ?? new Map<string, unknown>();
+
+    databases.set(this.dbName, stores.set(this.name, records.set(key, value)));
+  }
+
+  protected remove(key: string): void {
+    this.records?.delete(key);
+  }
+
+  protected list(): string[] {
+    return Array.from(this.records?.keys() ?? []);
+  }
+
+  async listStores(): Promise<string[]> {
+    return Array.from(databases.get(this.dbName)?.keys() ?? []);
+  }
+
+  async dropStore(name: string): Promise<void> {
+    databases.get(this.dbName)?.delete(name);
+  }
+
+  async destroy(): Promise<void> {
+    databases.delete(this.dbName);
+  }
+}
@@ -0,0 +1,59 @@
+import { parseRecord, stringifyRecord } from "../storage/storage.utils";
+import { KeyValueBackend } from "./key-value.backend";
+
+const PREFIX = 'encrypt-storage';
+
+/**
+ * Keeps the records in `localStorage` or `sessionStorage`, under keys prefixed with the database and store names.
+ * Records are saved as JSON, with their binaries base64 encoded.
+ */
+export class WebStorageBackend extends KeyValueBackend {
+  constructor(private readonly storage: Storage, private readonly dbName: string, readonly name: string) {
+    super();
+  }
+
+  private get prefix(): string {
+    return `${PREFIX}:${this.dbName}:${this.name}:`;
+  }
+
+  protected read(key: string): unknown {
+    const value = this.storage.getItem(this.prefix + key);
+
+    return value === null ? undefined : parseRecord(value);
+  }
+
+  protected write(key: string, value: unknown): void {
+    this.storage.setItem(this.prefix + key, stringifyRecord(value));
+  }
+
+  protected remove(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  protected list(): string[] {
+    return this.listWithPrefix(this.prefix).map((key) => key.slice(this.prefix.length));
+  }
+
+  /**
+   * Only the stores with records are found, the names have no `:`.
+   */
+  async listStores(): Promise<string[]> {
+    const dbPrefix = `${PREFIX}:${this.dbName}:`;
+    const names = this.listWithPrefix(dbPrefix).map((key) => key.slice(dbPrefix.length, key.indexOf(':', dbPrefix.length)));
+
+    return Array.from(new Set(names));
+  }
+
+  async dropStore(name: string): Promise<void> {
+    this.listWithPrefix(`${PREFIX}:${this.dbName}:${name}:`).forEach((key) => this.storage.removeItem(key));
+  }
+
+  async destroy(): Promise<void> {
+    this.listWithPrefix(`${PREFIX}:${this.dbName}:`).forEach((key) => this.storage.removeItem(key));
+  }
+
+  private listWithPrefix(prefix: string): string[] {
+    return Array.from({ length: this.storage.length }, (_, index) => this.storage.key(index))
+      .filter((key): key is string => key !== null && key.startsWith(prefix));
+  }
+}
@@ -1,5 +1,15 @@
 import { encode, generateNonce, getCryptoObject, isTypedArray } from "./crypto.utils";
 import { AlgorithmParam, DeriveAlgorithm, DeriveAlgorithmParam, ImportAlgorithm, KeyUsage } from "./crypto.type";
+import { fromCryptoError } from "../errors";
+
+/**
+ * Runs a WebCrypto operation, unsupported algorithms reject with `UnsupportedAlgorithmError`, other errors as they are.
+ */
+const withCryptoErrors = <T>(operation: () => PromiseLike<T>): Promise<T> => {
+  return new Promise<T>((resolve) => resolve(operation())).catch((e) => {
+    throw fromCryptoError(e);
+  });
+};
 
 interface IGenerateCryptoKeyParams {
   raw: string | BufferSource | JsonWebKey,
@@ -31,7 +41,7 @@ export function generateCryptoKey({
 }: IGenerateCryptoKeyParams): Promise<CryptoKey> {
   const isJWK = !isTypedArray(raw) && typeof raw === "object";
 
-  const result = isJWK ? getCryptoObject().subtle.importKey(
+  return withCryptoErrors(() => isJWK ? getCryptoObject().subtle.importKey(
     'jwk',
     raw,
     algorithm,
@@ -43,11 +53,14 @@ export function generateCryptoKey({
     algorithm,
     false,
     keyUsages
-  );
-
-  return Promise.resolve(result);
+  ));
 }
 
+/**
+ * Default number of `PBKDF2` iterations of `deriveKey`.
+ */
+export const DEFAULT_ITERATIONS = 50000;
+
 /**
  *
  * or any other possibility uses in KeyUsage
@@ -73,23 +86,38 @@ interface IDeriveCryptoKeyParams {
   saltOrDeriveAlgorithm: BufferSource | DeriveAlgorithm,
   iterationsOrAlgorithmParam?: number | DeriveAlgorithmParam,
   keyUsages?: KeyUsage[]
-};
+}
 /**
- * Derives a Key (from generateCryptoKey) to new one that can be used to encrypt/decrypt
- *
- * @param options
- * @param key CryptoKey generated by `generateCryptoKey`
- * @param deriveAlgorithm The algorithm to be used when deriving the Crypto Key
- * @param algorithmParam The algorithm where the derived Crypto Key will be used. Default value: `{ name: 'AES-GCM', length: 256 }`
- * @param keyUsages
- * @returns
+ * Params 3, HKDF
+ * @param key CryptoKey imported with the `HKDF` algorithm, e.g. `generateCryptoKey({ raw, algorithm: 'HKDF' })`
+ * @param info The context the derived key is bound to, keys derived with other infos are unrelated.
+ * @param salt <optional> Default value: empty
+ * @param hash <optional> Default value: `SHA-256`
+ * @param algorithmParam <optional> The algorithm where the derived Crypto Key will be used. Default value: `{ name: 'AES-GCM', length: 256 }`
+ * @param keyUsages <optional>
  */
-export function deriveKey({
-  key,
-  saltOrDeriveAlgorithm,
-  iterationsOrAlgorithmParam = 50000,
-  keyUsages = ['encrypt', 'decrypt']
-}: IDeriveCryptoKeyParams): Promise<CryptoKey> {
+interface IHkdfDeriveKeyParams {
+  key: CryptoKey,
+  info: string | BufferSource,
+  salt?: BufferSource,
+  hash?: string,
+  algorithmParam?: DeriveAlgorithmParam,
+  keyUsages?: KeyUsage[]
+}
+
+const getDeriveAlgorithms = (params: IDeriveCryptoKeyParams | IHkdfDeriveKeyParams): [DeriveAlgorithm, DeriveAlgorithmParam] => {
+  if ('info' in params) {
+    const {
+      info,
+      salt = new Uint8Array(),
+      hash = 'SHA-256',
+      algorithmParam = { name: 'AES-GCM', length: 256 } as AesDerivedKeyParams
+    } = params;
+
+    return [{ name: 'HKDF', hash, salt, info: encode(info) } as HkdfParams, algorithmParam];
+  }
+
+  const { saltOrDeriveAlgorithm, iterationsOrAlgorithmParam = DEFAULT_ITERATIONS } = params;
   const isSalt = isTypedArray(saltOrDeriveAlgorithm);
   const isIterations = typeof iterationsOrAlgorithmParam === 'number';
 
@@ -105,17 +133,39 @@ export function deriveKey({
     length: 256
   }) as AesDerivedKeyParams : iterationsOrAlgorithmParam;
 
-  return Promise.resolve(
-    getCryptoObject().subtle.deriveKey(
-      deriveAlgorithm,
-      key,
-      algorithmParam,
-      false,
-      keyUsages
-    )
-  );
+  return [deriveAlgorithm, algorithmParam];
+};
+
+/**
+ * Derives a Key (from generateCryptoKey) to new one that can be used to encrypt/decrypt
+ *
+ * @param options
+ * @param key CryptoKey generated by `generateCryptoKey`
+ * @param deriveAlgorithm The algorithm to be used when deriving the Crypto Key
+ * @param algorithmParam The algorithm where the derived Crypto Key will be used. Default value: `{ name: 'AES-GCM', length: 256 }`
+ * @param keyUsages
+ * @returns
+ */
+export function deriveKey(params: IDeriveCryptoKeyParams | IHkdfDeriveKeyParams): Promise<CryptoKey> {
+  const { key, keyUsages = ['encrypt', 'decrypt'] } = params;
+  const [deriveAlgorithm, algorithmParam] = getDeriveAlgorithms(params);
+
+  return withCryptoErrors(() => getCryptoObject().subtle.deriveKey(
+    deriveAlgorithm,
+    key,
+    algorithmParam,
+    false,
+    keyUsages
+  ));
 }
 
+const withAdditionalData = (algorithm: AlgorithmParam, additionalData?: BufferSource): AlgorithmParam => {
+  if (!additionalData) {
+    return algorithm;
+  }
+
+  return { ...(typeof algorithm === 'string' ? { name: algorithm } : algorithm), additionalData } as AesGcmParams;
+};
 
 /**
  * Encrypt a value with the given Crypto Key & Algorithm
@@ -123,21 +173,24 @@ export function deriveKey({
  * @param data.
  * @param key The Crypto Key to be used in encryption.
  * @param algorithm The algorithm to be used in encryption. Default to `AES-GCM`.
+ * @param additionalData <optional> Data authenticated along with the encrypted value (AES-GCM), required again to decrypt it.
  *
  * @returns A Promise with the encrypted value & used nonce (if alogirhtm provided).
  */
 interface IEncryptParams {
   data: string | BufferSource,
   key: CryptoKey,
-  algorithm?: AlgorithmParam
-};
+  algorithm?: AlgorithmParam,
+  additionalData?: BufferSource
+}
 export function encrypt({
   data,
   key,
-  algorithm = { name: 'AES-GCM', iv: generateNonce() } as AesGcmParams
+  algorithm = { name: 'AES-GCM', iv: generateNonce() } as AesGcmParams,
+  additionalData
 }: IEncryptParams): Promise<[ArrayBuffer, BufferSource | null]> {
-  return Promise.resolve(
-    getCryptoObject().subtle.encrypt(algorithm, key, encode(data))
+  return withCryptoErrors(
+    () => getCryptoObject().subtle.encrypt(withAdditionalData(algorithm, additionalData), key, encode(data))
   ).then((cryptoValue) => {
     return [cryptoValue, typeof algorithm === 'object' && 'iv' in algorithm ? algorithm.iv : null];
   });
@@ -149,25 +202,137 @@ export function encrypt({
  * @param data
  * @param key
  * @param nonceOrAlgorithm The nonce used for AES encryption or custom algorithm.
+ * @param additionalData <optional> The additional data given to `encrypt`.
  *
  * @returns A Promise with the decrypted data.
  */
 interface IDecryptParams {
   data: BufferSource,
   key: CryptoKey,
-  nonceOrAlgorithm: AlgorithmParam | BufferSource
-};
+  nonceOrAlgorithm: AlgorithmParam | BufferSource,
+  additionalData?: BufferSource
+}
 export function decrypt({
   data,
   key,
-  nonceOrAlgorithm
+  nonceOrAlgorithm,
+  additionalData
 }: IDecryptParams): Promise<ArrayBuffer> {
   const algorithm = isTypedArray(nonceOrAlgorithm) ? ({
     name: 'AES-GCM',
     iv: nonceOrAlgorithm
   } as AesGcmParams) : nonceOrAlgorithm;
 
-  return Promise.resolve(
-    getCryptoObject().subtle.decrypt(algorithm, key, data)
+  return withCryptoErrors(() => getCryptoObject().subtle.decrypt(withAdditionalData(algorithm, additionalData), key, data));
+}
+
+/**
+ * Compute the HMAC of a value, e.g. a lookup identifier that can't be guessed without the key.
+ *
+ * @param data The value to be authenticated.
+ * @param key The HMAC Crypto Key, must have the `sign` usage.
+ *
+ * @returns A Promise with the HMAC.
+ */
+interface IGenerateHmacParams {
+  data: string | BufferSource,
+  key: CryptoKey
+}
+export function generateHmac({
+  data,
+  key
+}: IGenerateHmacParams): Promise<ArrayBuffer> {
+  return withCryptoErrors(() => getCryptoObject().subtle.sign('HMAC', key, encode(data)));
+}
+
+/**
+ * Generates a new random Crypto Key, by default an `AES-GCM` key to encrypt/decrypt data.
+ * The key is extractable by default, so it can be wrapped with `wrapKey`.
+ *
+ * @param options
+ * @param algorithm <optional> The algorithm of the generated key. Default value: `{ name: 'AES-GCM', length: 256 }`
+ * @param keyUsages <optional> Default value: `['encrypt', 'decrypt']`
+ * @param extractable <optional> Default value: `true`
+ *
+ * @returns A Promise with the generated Crypto Key.
+ */
+interface IGenerateDataKeyParams {
+  algorithm?: AesKeyGenParams | HmacKeyGenParams,
+  keyUsages?: KeyUsage[],
+  extractable?: boolean
+}
+export function generateDataKey({
+  algorithm = { name: 'AES-GCM', length: 256 } as AesKeyGenParams,
+  keyUsages = ['encrypt', 'decrypt'],
+  extractable = true
+}: IGenerateDataKeyParams = {}): Promise<CryptoKey> {
+  return withCryptoErrors(() => getCryptoObject().subtle.generateKey(algorithm, extractable, keyUsages) as PromiseLike<CryptoKey>);
+}
+
+/**
+ * Wrap (export and encrypt) an extractable Crypto Key with another Crypto Key.
+ *
+ * @param key The extractable Crypto Key to be wrapped.
+ * @param wrappingKey The Crypto Key used to encrypt the key, must have the `wrapKey` usage.
+ * @param algorithm The algorithm used to encrypt the key. Default to `AES-GCM`.
+ * @param format The format the key is exported to before being encrypted. Default to `raw`.
+ *
+ * @returns A Promise with the wrapped key & used nonce (if algorithm provided).
+ */
+interface IWrapKeyParams {
+  key: CryptoKey,
+  wrappingKey: CryptoKey,
+  algorithm?: AlgorithmParam,
+  format?: KeyFormat
+}
+export function wrapKey({
+  key,
+  wrappingKey,
+  algorithm = { name: 'AES-GCM', iv: generateNonce() } as AesGcmParams,
+  format = 'raw'
+}: IWrapKeyParams): Promise<[ArrayBuffer, BufferSource | null]> {
+  return withCryptoErrors(() => getCryptoObject().subtle.wrapKey(format, key, wrappingKey, algorithm)).then((wrappedKey) => {
+    return [wrappedKey, typeof algorithm === 'object' && 'iv' in algorithm ? algorithm.iv : null];
+  });
+}
+
+/**
+ * Unwrap (decrypt and import) a key wrapped by `wrapKey`.
+ *
+ * @param data The wrapped key.
+ * @param key The Crypto Key used to decrypt the wrapped key, must have the `unwrapKey` usage.
+ * @param nonceOrAlgorithm The nonce used for AES wrapping or custom algorithm.
+ * @param unwrappedKeyAlgorithm <optional> The algorithm of the unwrapped key. Default value: `{ name: 'AES-GCM', length: 256 }`
+ * @param keyUsages <optional> The usages of the unwrapped key. Default value: `['encrypt', 'decrypt']`
+ * @param extractable <optional> Default value: `false`
+ * @param format <optional> Default value: `raw`
+ *
+ * @returns A Promise with the unwrapped Crypto Key.
+ */
+interface IUnwrapKeyParams {
+  data: BufferSource,
+  key: CryptoKey,
+  nonceOrAlgorithm: AlgorithmParam | BufferSource,
+  unwrappedKeyAlgorithm?: ImportAlgorithm,
+  keyUsages?: KeyUsage[],
+  extractable?: boolean,
+  format?: KeyFormat
+}
+export function unwrapKey({
+  data,
+  key,
+  nonceOrAlgorithm,
+  unwrappedKeyAlgorithm = { name: 'AES-GCM', length: 256 } as AesKeyAlgorithm,
+  keyUsages = ['encrypt', 'decrypt'],
+  extractable = false,
+  format = 'raw'
+}: IUnwrapKeyParams): Promise<CryptoKey> {
+  const algorithm = isTypedArray(nonceOrAlgorithm) ? ({
+    name: 'AES-GCM',
+    iv: nonceOrAlgorithm
+  } as AesGcmParams) : nonceOrAlgorithm;
+
+  return withCryptoErrors(
+    () => getCryptoObject().subtle.unwrapKey(format, data, key, algorithm, unwrappedKeyAlgorithm, extractable, keyUsages)
   );
 }
@@ -1,12 +1,50 @@
-let C: Crypto = window.crypto;
+import { UnsupportedEnvironmentError } from "../errors";
+
+export const UNSUPPORTED_ENVIRONMENT_ERROR_MESSAGE = `WebCrypto is not available in this environment.`;
+
+// resolved on first use, so importing the package never touches `window`
+let C: Crypto | undefined;
 
 // setup 3rd party cryptoObject
 export function setCryptoObjectForTesting(c: Crypto) {
   C = c;
 }
 
+/**
+ * Node's WebCrypto, only reachable through `require` before Node 19 made it global.
+ * `module.require` keeps bundlers from pulling the `crypto` module into browser builds.
+ */
+const getNodeCrypto = (): Crypto | undefined => {
+  try {
+    return typeof module !== 'undefined' ? module.require('crypto').webcrypto : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * The WebCrypto object of the environment: `globalThis.crypto` in browsers, workers and recent Node versions,
+ * Node's `webcrypto` otherwise.
+ *
+ * @throws UNSUPPORTED_ENVIRONMENT_ERROR_MESSAGE if there's no WebCrypto.
+ */
 export function getCryptoObject(): Crypto {
-  return C || window.crypto;
+  C = C ?? (typeof crypto !== 'undefined' && crypto.subtle !== undefined ? crypto : getNodeCrypto());
+
+  if (!C) {
+    throw new UnsupportedEnvironmentError(UNSUPPORTED_ENVIRONMENT_ERROR_MESSAGE);
+  }
+
+  return C;
+}
+
+/**
+ * Type Guard to CryptoKey, `CryptoKey` isn't a global in every environment.
+ *
+ * @returns true if the given value is a CryptoKey.
+ */
+export function isCryptoKey(key: unknown): key is CryptoKey {
+  return Object.prototype.toString.call(key) === '[object CryptoKey]';
 }
 
 /**
@@ -78,3 +116,50 @@ export function generateHash(
     getCryptoObject().subtle.digest(algorithm, encode(data))
   );
 }
+
+/**
+ * Encode a BufferSource value to a base64 string.
+ *
+ * @returns The base64 representation of the given value.
+ */
+export function toBase64(data: BufferSource): string {
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  let binary = '';
+
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Encode a BufferSource value to a lowercase hex string.
+ *
+ * @returns The hex representation of the given value.
+ */
+export function toHex(data: BufferSource): string {
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decode a base64 string back to a Typed Array as `Uint8Array`.
+ *
+ * @returns The decoded bytes.
+ */
+export function fromBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
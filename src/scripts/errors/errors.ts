@@ -0,0 +1,176 @@
+export const QUOTA_EXCEEDED_ERROR_MESSAGE = `The storage quota is exceeded.`;
+export const UNSUPPORTED_ALGORITHM_ERROR_MESSAGE = `The algorithm is not supported in this environment.`;
+
+export type EncryptStorageErrorCode =
+  | 'MISSING_KEY'
+  | 'WRONG_KEY'
+  | 'KEY_NOT_EXPORTABLE'
+  | 'TAMPERED_RECORD'
+  | 'MISSING_NONCE'
+  | 'STORE_CLOSED'
+  | 'STORE_LOCKED'
+  | 'STORE_BLOCKED'
+  | 'QUOTA_EXCEEDED'
+  | 'UNSUPPORTED_ENVIRONMENT'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'UNSUPPORTED_FORMAT';
+
+/**
+ * Base of the errors thrown by the package. The `code` tells them apart where `instanceof` can't,
+ * e.g. across bundles, and `cause` keeps the underlying IndexedDB, Web Storage or WebCrypto error, if any.
+ */
+export class EncryptStorageError extends Error {
+  readonly cause?: unknown;
+
+  constructor(readonly code: EncryptStorageErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'EncryptStorageError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * No key was given.
+ */
+export class MissingKeyError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('MISSING_KEY', message, cause);
+    this.name = 'MissingKeyError';
+  }
+}
+
+/**
+ * The given key is not the key of the store.
+ */
+export class WrongKeyError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('WRONG_KEY', message, cause);
+    this.name = 'WrongKeyError';
+  }
+}
+
+/**
+ * The key of the store can't leave this device, e.g. to make a backup of a store in device mode.
+ */
+export class KeyNotExportableError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('KEY_NOT_EXPORTABLE', message, cause);
+    this.name = 'KeyNotExportableError';
+  }
+}
+
+/**
+ * A record failed authentication with the right key: it was modified, or moved from another record.
+ */
+export class TamperedRecordError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('TAMPERED_RECORD', message, cause);
+    this.name = 'TamperedRecordError';
+  }
+}
+
+/**
+ * The nonce record of an entry of the oldest format is missing.
+ */
+export class MissingNonceError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('MISSING_NONCE', message, cause);
+    this.name = 'MissingNonceError';
+  }
+}
+
+/**
+ * The storage was closed or deleted.
+ */
+export class StoreClosedError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('STORE_CLOSED', message, cause);
+    this.name = 'StoreClosedError';
+  }
+}
+
+/**
+ * The storage is locked until `unlock` is called.
+ */
+export class StoreLockedError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('STORE_LOCKED', message, cause);
+    this.name = 'StoreLockedError';
+  }
+}
+
+/**
+ * Another connection to the database, e.g. in another tab, doesn't close to let it be upgraded or deleted.
+ */
+export class StoreBlockedError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('STORE_BLOCKED', message, cause);
+    this.name = 'StoreBlockedError';
+  }
+}
+
+/**
+ * The browser refused a write for lack of space, or the write goes over the limits of the store.
+ */
+export class QuotaExceededError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('QUOTA_EXCEEDED', message, cause);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * WebCrypto or the chosen backend is not available.
+ */
+export class UnsupportedEnvironmentError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('UNSUPPORTED_ENVIRONMENT', message, cause);
+    this.name = 'UnsupportedEnvironmentError';
+  }
+}
+
+/**
+ * WebCrypto doesn't support the requested algorithm.
+ */
+export class UnsupportedAlgorithmError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('UNSUPPORTED_ALGORITHM', message, cause);
+    this.name = 'UnsupportedAlgorithmError';
+  }
+}
+
+/**
+ * The store, or the backup to import, was written by a newer version, in a format this one can't read.
+ */
+export class UnsupportedFormatError extends EncryptStorageError {
+  constructor(message: string, cause?: unknown) {
+    super('UNSUPPORTED_FORMAT', message, cause);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+const hasName = (error: unknown, name: string): boolean => (error as { name?: unknown } | null)?.name === name;
+
+/**
+ * @returns The given IndexedDB or Web Storage error as a `QuotaExceededError` if the write was refused for lack of space,
+ * as is otherwise.
+ */
+export function fromStorageError(error: unknown): unknown {
+  return hasName(error, 'QuotaExceededError') && !(error instanceof EncryptStorageError)
+    ? new QuotaExceededError(QUOTA_EXCEEDED_ERROR_MESSAGE, error)
+    : error;
+}
+
+/**
+ * @returns The given WebCrypto error as an `UnsupportedAlgorithmError` if the algorithm is not supported, as is otherwise.
+ */
+export function fromCryptoError(error: unknown): unknown {
+  return hasName(error, 'NotSupportedError') ? new UnsupportedAlgorithmError(UNSUPPORTED_ALGORITHM_ERROR_MESSAGE, error) : error;
+}
+
+/**
+ * @returns Whether the given WebCrypto error is a failed authentication, e.g. of an AES-GCM ciphertext.
+ */
+export function isAuthenticationError(error: unknown): boolean {
+  return hasName(error, 'OperationError');
+}
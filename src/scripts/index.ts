@@ -1,2 +1,4 @@
+export * from './backend';
 export * from './crypto';
+export * from './errors';
 export * from './storage';
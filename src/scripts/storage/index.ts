@@ -1,2 +1,3 @@
 export * from './storage';
 export * from './storage.type';
+export * from './storage.sync';
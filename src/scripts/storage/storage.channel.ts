@@ -0,0 +1,61 @@
+import { ChangeType } from "./storage.type";
+
+const STORAGE_EVENT_PREFIX = 'encrypt-storage:change:';
+
+/**
+ * What is sent to the other tabs: only the lookup identifiers of the changed entries, base64 encoded.
+ * Each tab reads and decrypts the records itself.
+ */
+export interface IChangeMessage {
+  type: ChangeType;
+  ids: string[];
+}
+
+/**
+ * Sends change messages to the other same-origin tabs using the same store, through `BroadcastChannel`
+ * or, where it's not available, through the `storage` event of a `localStorage` item written and removed at once.
+ * Without either, messages are dropped.
+ */
+export class ChangeChannel {
+  private readonly channel?: BroadcastChannel;
+  private readonly onStorage?: (event: StorageEvent) => void;
+
+  constructor(private readonly name: string, onMessage: (message: IChangeMessage) => void) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = ({ data }: MessageEvent<IChangeMessage>) => onMessage(data);
+      // Node's channels would keep the process running
+      (this.channel as { unref?: () => void }).unref?.();
+    } else if (typeof addEventListener === 'function' && typeof localStorage !== 'undefined') {
+      this.onStorage = ({ key, newValue }: StorageEvent) => {
+        // the removal of the item fires an event too, without value
+        if (key === this.storageKey && newValue !== null) {
+          onMessage(JSON.parse(newValue).message);
+        }
+      };
+      addEventListener('storage', this.onStorage);
+    }
+  }
+
+  private get storageKey(): string {
+    return STORAGE_EVENT_PREFIX + this.name;
+  }
+
+  post(message: IChangeMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+    } else if (this.onStorage) {
+      // the nonce makes consecutive identical messages fire an event each
+      localStorage.setItem(this.storageKey, JSON.stringify({ message, nonce: Math.random() }));
+      localStorage.removeItem(this.storageKey);
+    }
+  }
+
+  close(): void {
+    this.channel?.close();
+
+    if (this.onStorage) {
+      removeEventListener('storage', this.onStorage);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { IndexedDBBackend } from "../backend";
+import { decode, encode, generateDataKey, toBase64 } from "../crypto";
+
+// one database keeps the device keys of all the stores, whichever backend they use
+export const DEVICE_KEYS_DB = 'encrypt-storage-device-keys';
+const DEVICE_KEYS_STORE = 'keys';
+
+/**
+ * The device keys of the stores of a database share the prefix of its name hash, to delete them along with it.
+ */
+const getDeviceKeyPrefix = (dbHash: ArrayBuffer): string => `${toBase64(dbHash)}:`;
+
+const getDeviceKeyId = (dbHash: ArrayBuffer, storeHash: ArrayBuffer): ArrayBuffer => {
+  return (encode(`${getDeviceKeyPrefix(dbHash)}${toBase64(storeHash)}`) as Uint8Array).buffer;
+};
+
+/**
+ * A random key encryption key that can't be exported, its bytes never leave the browser.
+ */
+export const generateDeviceKey = (): Promise<CryptoKey> => {
+  return generateDataKey({ keyUsages: ['wrapKey', 'unwrapKey', 'encrypt', 'decrypt'], extractable: false });
+};
+
+const withDeviceKeys = async <T>(indexedDB: IDBFactory | undefined, operation: (keys: IndexedDBBackend) => Promise<T>): Promise<T> => {
+  const keys = await IndexedDBBackend.open(DEVICE_KEYS_DB, DEVICE_KEYS_STORE, indexedDB);
+
+  try {
+    return await operation(keys);
+  } finally {
+    await keys.close();
+  }
+};
+
+/**
+ * Loads the device key of a store. The CryptoKey object itself is kept in IndexedDB, structured cloning keeps it non-extractable.
+ *
+ * @param create Whether to create the key if the store has none, otherwise resolved with undefined.
+ * @returns Promise with the device key, the one another instance has just created if any.
+ * @throws UnsupportedEnvironmentError if there's no IndexedDB.
+ */
+export async function loadDeviceKey(
+  dbHash: ArrayBuffer,
+  storeHash: ArrayBuffer,
+  indexedDB: IDBFactory | undefined,
+  create: boolean
+): Promise<CryptoKey | undefined> {
+  const id = getDeviceKeyId(dbHash, storeHash);
+  // generated ahead, the transaction can't wait on WebCrypto
+  const newKey = create ? await generateDeviceKey() : undefined;
+
+  return withDeviceKeys(indexedDB, (keys) => keys.transaction('readwrite', async (tx) => {
+    const existingKey = await tx.get(id) as CryptoKey | undefined;
+
+    if (existingKey || !newKey) {
+      return existingKey;
+    }
+
+    await tx.put(id, newKey);
+
+    return newKey;
+  }));
+}
+
+/**
+ * Keeps the given key as the device key of a store, replacing its current one.
+ */
+export function saveDeviceKey(dbHash: ArrayBuffer, storeHash: ArrayBuffer, key: CryptoKey, indexedDB?: IDBFactory): Promise<void> {
+  return withDeviceKeys(indexedDB, (keys) => keys.put(getDeviceKeyId(dbHash, storeHash), key));
+}
+
+/**
+ * Destroys the device key of a store, or of all the stores of the database without `storeHash`.
+ * Nothing is opened where no device key was ever kept.
+ */
+export async function deleteDeviceKeys(dbHash: ArrayBuffer, storeHash?: ArrayBuffer, indexedDB?: IDBFactory): Promise<void> {
+  const idbFactory = indexedDB ?? (typeof globalThis.indexedDB !== 'undefined' ? globalThis.indexedDB : undefined);
+
+  if (!idbFactory || !await IndexedDBBackend.exists(DEVICE_KEYS_DB, idbFactory)) {
+    return;
+  }
+
+  await withDeviceKeys(idbFactory, async (keys) => {
+    if (storeHash) {
+      return keys.delete(getDeviceKeyId(dbHash, storeHash));
+    }
+
+    const prefix = getDeviceKeyPrefix(dbHash);
+    const ids = (await keys.iterate()).map(([id]) => id).filter((id) => decode(id).startsWith(prefix));
+
+    await keys.transaction('readwrite', async (tx) => {
+      await Promise.all(ids.map((id) => tx.delete(id)));
+    });
+  });
+}
@@ -0,0 +1,122 @@
+import { IBackendTransaction, StorageBackend } from "../backend/backend.type";
+import { generateHash } from "../crypto";
+import { UnsupportedFormatError } from "../errors";
+import { IKdfParams, IStoreMetadata } from "./storage.type";
+
+export const UNSUPPORTED_FORMAT_ERROR_MESSAGE = `The store was written in a newer format.`;
+
+/**
+ * Format version of the records written by this version.
+ * Stores created before the metadata record existed are at version 1 whatever the layout of their entries, the
+ * migrations of the storage, see `MIGRATIONS`, bring them to this version. A format change adds a migration with the
+ * next version and bumps it.
+ */
+export const FORMAT_VERSION = 2;
+
+/**
+ * Moves the records of a store from the previous format version to `version`.
+ * `migrate` runs in the upgrade transaction: like the operations of `StorageBackend.transaction`, it must not wait on
+ * anything but the transaction, e.g. on WebCrypto.
+ * Migrations that need the key of the store read and encrypt the records in `prepare`, before the transaction, and
+ * get its result in `migrate`. They only run once the key is authenticated, each in its own transaction.
+ */
+export interface IMigration<T = unknown> {
+  version: number;
+  prepare?(store: StorageBackend, keyEncryptionKey: CryptoKey): Promise<T>;
+  migrate(tx: IBackendTransaction, prepared: T): Promise<void>;
+}
+
+export const getMetadataKey = (): Promise<ArrayBuffer> => generateHash('o-metadata'); // format version & KDF parameters
+
+/**
+ * Runs the given migrations and records the version they bring the store to, in one transaction.
+ * Only the migrations another instance hasn't run meanwhile are run.
+ */
+const applyMigrations = (
+  store: StorageBackend,
+  metadataKey: ArrayBuffer,
+  migrations: IMigration[],
+  prepared: unknown,
+  version: number,
+  latest: number
+): Promise<IStoreMetadata> => {
+  return store.transaction('readwrite', async (tx) => {
+    const stored = await tx.get(metadataKey) as IStoreMetadata | undefined;
+    const metadata = stored ?? { version: 1 };
+
+    if (metadata.version > latest) {
+      throw new UnsupportedFormatError(UNSUPPORTED_FORMAT_ERROR_MESSAGE);
+    }
+
+    if (stored && metadata.version >= version) {
+      return stored;
+    }
+
+    for (const migration of migrations.filter((pending) => pending.version > metadata.version)) {
+      await migration.migrate(tx, prepared);
+    }
+
+    const migrated: IStoreMetadata = { ...metadata, version };
+    await tx.put(metadataKey, migrated);
+
+    return migrated;
+  });
+};
+
+/**
+ * Brings the store to the given format version: the pending migrations run in version order, then the metadata record
+ * is written. The migrations that don't need the key run together in one transaction, each one that needs it in its
+ * own, so a failed migration leaves the store at the version of the last one done.
+ * Without the key, the store is brought to the version before the first pending migration that needs it.
+ *
+ * @param store
+ * @param migrations
+ * @param version <optional> The version to migrate to. Default: `FORMAT_VERSION`.
+ * @param keyEncryptionKey <optional> The authenticated key encryption key of the store.
+ * @returns Promise with the metadata of the migrated store.
+ * @throws UnsupportedFormatError if the store was written in a newer format.
+ */
+export async function migrateStore(
+  store: StorageBackend,
+  migrations: IMigration[],
+  version = FORMAT_VERSION,
+  keyEncryptionKey?: CryptoKey
+): Promise<IStoreMetadata> {
+  const metadataKey = await getMetadataKey();
+  let metadata = await store.get(metadataKey) as IStoreMetadata | undefined;
+
+  while (metadata?.version !== version) {
+    const current = metadata?.version ?? 1;
+    const pending = migrations
+      .filter((migration) => migration.version > current && migration.version <= version)
+      .sort((a, b) => a.version - b.version);
+    const keyed = pending.findIndex((migration) => migration.prepare !== undefined);
+
+    if (keyed === 0 && !keyEncryptionKey) {
+      // the metadata record is still added to the stores created before it
+      return metadata ?? applyMigrations(store, metadataKey, [], undefined, current, version);
+    }
+
+    const step = keyed === 0 ? pending.slice(0, 1) : pending.slice(0, keyed === -1 ? pending.length : keyed);
+    const prepared = keyed === 0 ? await step[0].prepare!(store, keyEncryptionKey!) : undefined;
+    // a newer version without migrations is reached along with the last one
+    const reached = step.length === pending.length ? version : step[step.length - 1].version;
+
+    metadata = await applyMigrations(store, metadataKey, step, prepared, reached, version);
+  }
+
+  return metadata;
+}
+
+/**
+ * Records the parameters the key encryption key of the store is derived with.
+ */
+export async function saveKdfParams(store: StorageBackend, kdf: IKdfParams): Promise<void> {
+  const metadataKey = await getMetadataKey();
+
+  await store.transaction('readwrite', async (tx) => {
+    const metadata = await tx.get(metadataKey) as IStoreMetadata | undefined ?? { version: FORMAT_VERSION };
+
+    await tx.put(metadataKey, { ...metadata, kdf });
+  });
+}
@@ -0,0 +1,269 @@
+import { EncryptStorage, LOCKED_ERROR_MESSAGE } from "./storage";
+import { IStorageChange, InputDataType } from "./storage.type";
+import { StoreLockedError } from "../errors";
+
+export const SYNC_STORAGE_NOT_READY_ERROR_MESSAGE = `The storage is not loaded yet, await \`ready\` first.`;
+
+export interface ISyncStorageOptions {
+  // called with the error of every write that could not be saved.
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A synchronous, Web Storage compatible view of an `EncryptStorage`.
+ * The entries with string keys and values are decrypted into memory once, then reads are served from memory
+ * and writes are applied in memory at once and saved to the encrypted store in the background, in order.
+ * Writes made in the same tick, or while a save is running, are saved together.
+ * The changes made through the storage, here or in other tabs, are applied in memory as they are notified.
+ * Entries saved before their original keys were kept can't be listed, they are only loaded once read or saved
+ * again through the storage.
+ * The decrypted entries are dropped when the storage is locked, and loaded again once it's unlocked.
+ */
+export class SyncStorage implements Pick<Storage, 'length' | 'key' | 'getItem' | 'setItem' | 'removeItem' | 'clear'> {
+  /**
+   * Resolved once the entries are loaded, the other methods throw before.
+   * Replaced when the storage is unlocked, the entries are loaded again.
+   */
+  ready: Promise<void>;
+
+  private items?: Map<string, string>;
+  // the changes notified while loading, applied once loaded
+  private received: IStorageChange[] = [];
+  private pending = new Map<string, string | null>();
+  // the writes of the running save
+  private saving = new Map<string, string | null>();
+  private pendingClear = false;
+  private scheduled = false;
+  private queue: Promise<void> = Promise.resolve();
+  private errors: unknown[] = [];
+
+  constructor(private readonly storage: EncryptStorage, private readonly options: ISyncStorageOptions = {}) {
+    storage.on('change', (change) => this.receive(change));
+    storage.on('locked', () => this.drop());
+    storage.on('unlocked', () => {
+      this.ready = this.load();
+      this.ready.catch(() => undefined);
+    });
+    this.ready = this.load();
+    // a wrong key is reported to whoever awaits `ready`
+    this.ready.catch(() => undefined);
+  }
+
+  private async load(): Promise<void> {
+    const items = new Map<string, string>();
+
+    for await (const [key, value] of this.storage.entries<unknown, InputDataType>()) {
+      if (typeof key === 'string' && typeof value === 'string') {
+        items.set(key, value);
+      }
+    }
+
+    // the storage was locked while the entries were decrypted
+    if (this.storage.locked) {
+      throw new StoreLockedError(LOCKED_ERROR_MESSAGE);
+    }
+
+    this.items = items;
+    this.received.splice(0).forEach((change) => this.receive(change));
+  }
+
+  /**
+   * Forgets the decrypted entries until the storage is unlocked.
+   */
+  private drop(): void {
+    this.items = undefined;
+    this.received = [];
+  }
+
+  /**
+   * Applies a change of the storage in memory. The entries written here and not saved yet keep their value.
+   */
+  private receive(change: IStorageChange): void {
+    // applied to the entries loaded once unlocked
+    if (this.storage.locked) {
+      return;
+    }
+
+    if (!this.items) {
+      this.received.push(change);
+
+      return;
+    }
+
+    const { type, key, value } = change;
+
+    if (type === 'clear') {
+      Array.from(this.items.keys()).filter((item) => !this.isUnsaved(item)).forEach((item) => this.items!.delete(item));
+
+      return;
+    }
+
+    // the keys of the entries deleted in other tabs are not notified
+    if (key === undefined) {
+      this.queue = this.queue.then(() => this.refresh());
+
+      return;
+    }
+
+    if (typeof key !== 'string' || this.isUnsaved(key)) {
+      return;
+    }
+
+    if (type === 'set' && typeof value === 'string') {
+      this.items.set(key, value);
+    } else {
+      this.items.delete(key);
+    }
+  }
+
+  /**
+   * Drops the loaded entries that are no longer stored, only their keys are read.
+   */
+  private async refresh(): Promise<void> {
+    const stored = new Set<InputDataType>();
+
+    try {
+      for await (const key of this.storage.keys<InputDataType>()) {
+        stored.add(key);
+      }
+    } catch {
+      return;
+    }
+
+    const items = this.items;
+
+    // locked meanwhile, the entries are loaded again once unlocked
+    if (!items) {
+      return;
+    }
+
+    Array.from(items.keys())
+      .filter((key) => !stored.has(key) && !this.isUnsaved(key))
+      .forEach((key) => items.delete(key));
+  }
+
+  private isUnsaved(key: string): boolean {
+    return this.pending.has(key) || this.saving.has(key);
+  }
+
+  /**
+   * @throws StoreLockedError if the storage is locked.
+   */
+  private get loaded(): Map<string, string> {
+    if (this.storage.locked) {
+      throw new StoreLockedError(LOCKED_ERROR_MESSAGE);
+    }
+
+    if (!this.items) {
+      throw new Error(SYNC_STORAGE_NOT_READY_ERROR_MESSAGE);
+    }
+
+    return this.items;
+  }
+
+  get length(): number {
+    return this.loaded.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.loaded.keys())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.loaded.get(String(key)) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.loaded.set(String(key), String(value));
+    this.schedule(String(key), String(value));
+  }
+
+  removeItem(key: string): void {
+    this.loaded.delete(String(key));
+    this.schedule(String(key), null);
+  }
+
+  /**
+   * Removes every entry, including the ones with other keys or values than strings.
+   */
+  clear(): void {
+    this.loaded.clear();
+    this.pending.clear();
+    this.pendingClear = true;
+    this.schedule();
+  }
+
+  /**
+   * Wait for the pending writes to be saved.
+   *
+   * @returns Promise resolved once everything written so far is saved.
+   * @throws The error of the first write that could not be saved since the last call.
+   */
+  async flush(): Promise<void> {
+    await this.queue;
+
+    const errors = this.errors;
+    this.errors = [];
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  private schedule(key?: string, value?: string | null): void {
+    if (key !== undefined && value !== undefined) {
+      this.pending.set(key, value);
+    }
+
+    if (this.scheduled) {
+      return;
+    }
+
+    this.scheduled = true;
+    this.queue = this.queue.then(() => this.save());
+  }
+
+  private async save(): Promise<void> {
+    const changes = Array.from(this.pending);
+    const clear = this.pendingClear;
+
+    this.saving = this.pending;
+    this.pending = new Map();
+    this.pendingClear = false;
+    this.scheduled = false;
+
+    try {
+      if (clear) {
+        await this.storage.clear();
+      }
+
+      const sets = changes.filter((change): change is [string, string] => change[1] !== null);
+      const deletes = changes.filter(([, value]) => value === null).map(([key]) => key);
+
+      if (sets.length > 0) {
+        await this.storage.setMany(sets);
+      }
+
+      if (deletes.length > 0) {
+        await this.storage.deleteMany(deletes);
+      }
+    } catch (e) {
+      this.errors.push(e);
+      this.options.onError?.(e);
+    } finally {
+      this.saving = new Map();
+    }
+  }
+}
+
+/**
+ * Create a synchronous, Web Storage compatible view of the given storage, see `SyncStorage`.
+ *
+ * @param encryptStorage
+ * @param options
+ * @param options.onError <optional> Called with the error of every write that could not be saved.
+ * @returns The view, usable once `ready` resolves.
+ */
+export function createSyncStorage(encryptStorage: EncryptStorage, options?: ISyncStorageOptions): SyncStorage {
+  return new SyncStorage(encryptStorage, options);
+}
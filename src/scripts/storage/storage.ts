@@ -1,144 +1,2342 @@
-import { IDBPDatabase, deleteDB, openDB } from "idb";
-import { decode, decrypt, deriveKey, encrypt, generateCryptoKey, generateHash, generateSalt } from "../crypto";
-import { IStorageConfig, InputDataType, IConfigProperties } from "./storage.type";
+import { IDBPDatabase } from "idb";
+import { IndexedDBBackend, MemoryBackend, StorageBackend, getBackendStoreName, openBackend } from "../backend";
+import { DEFAULT_ITERATIONS, decode, decrypt, deriveKey, encode, encrypt, fromBase64, generateCryptoKey, generateDataKey, generateHash, generateHmac, generateRandomValues, generateSalt, isCryptoKey, isTypedArray, toBase64, unwrapKey, wrapKey } from "../crypto";
+import { ChangeType, CompressionOption, IBackupBundle, IImportBackupOptions, IStorageConfig, ImportMode, InputDataType, IConfigProperties, IDataKeyRecord, IDataKeys, IChunkManifest, IChunkRecord, IEncryptedKey, IEntryRecord, IKdfParams, IKeyVerifier, INonceRecord, IPurgeResult, IStoreMetadata, IRekeyOptions, ISetBlobOptions, ISetOptions, IStorageChange, IStorageEvents, IStorageUsage, ISubkeyParams, LimitPolicy, StorageEntry, SubkeyOption } from "./storage.type";
+import { KeyNotExportableError, MissingKeyError, MissingNonceError, QuotaExceededError, StoreClosedError, StoreLockedError, TamperedRecordError, UnsupportedEnvironmentError, UnsupportedFormatError, WrongKeyError, isAuthenticationError } from "../errors";
+import { ChangeChannel, IChangeMessage } from "./storage.channel";
+import { deleteDeviceKeys, generateDeviceKey, loadDeviceKey, saveDeviceKey } from "./storage.device";
+import { FORMAT_VERSION, IMigration, UNSUPPORTED_FORMAT_ERROR_MESSAGE, getMetadataKey, migrateStore, saveKdfParams } from "./storage.migrations";
+import {
+  RecordPart,
+  addExpiry,
+  compress,
+  decompress,
+  deserialize,
+  getAdditionalData,
+  getChunkAdditionalData,
+  getRecordSize,
+  isSameBytes,
+  parseRecord,
+  readChunkManifest,
+  readExpiry,
+  serialize,
+  serializeChunkManifest,
+  stringifyRecord
+} from "./storage.utils";
 
 export const CRYPTO_KEY_ERROR_MESSAGE = `Key is required.`;
 export const AUTHENTICITY_ERROR_MESSAGE = `Authenticity check failed.`;
+export const INVALID_BACKUP_ERROR_MESSAGE = `Invalid backup.`;
+export const UNSUPPORTED_BACKUP_VERSION_ERROR_MESSAGE = `Unsupported backup version.`;
+export const LOCKED_ERROR_MESSAGE = `The storage is locked.`;
+export const WRONG_KEY_ERROR_MESSAGE = `Wrong key.`;
+export const MISSING_NONCE_ERROR_MESSAGE = `The nonce of the entry is missing.`;
+export const CLOSED_ERROR_MESSAGE = `The storage is closed.`;
+export const NOT_BINARY_ERROR_MESSAGE = `The entry is not a Blob or a binary value.`;
+export const CHUNK_SIZE_ERROR_MESSAGE = `The chunk size must be a positive integer.`;
+export const LIMIT_EXCEEDED_ERROR_MESSAGE = `The entries don't fit in the limits of the store.`;
+export const MISSING_DEVICE_KEY_ERROR_MESSAGE = `The store has no key on this device.`;
+export const NOT_INDEXEDDB_ERROR_MESSAGE = `The storage is not kept in IndexedDB.`;
+export const DEVICE_BACKUP_ERROR_MESSAGE = `The device key can't be exported, switch to a passphrase with forgetDevice to make a backup.`;
+
+const getSaltKey = (): Promise<ArrayBuffer> => generateHash('o-salt'); // original salt
+const getDataKeyRecordKey = (): Promise<ArrayBuffer> => generateHash('o-data-key'); // wrapped data encryption key
+const getVerifierKey = (): Promise<ArrayBuffer> => generateHash('o-key-verifier'); // key verifier
+const getUsageIndexKey = (): Promise<ArrayBuffer> => generateHash('o-usage-index'); // encrypted last use times of the entries
+
+/**
+ * Keys of the records that are not entries: the salt, the wrapped data encryption key, the key verifier, the metadata
+ * and the usage index.
+ */
+const getMetaKeys = (): Promise<ArrayBuffer[]> => Promise.all([
+  getSaltKey(),
+  getDataKeyRecordKey(),
+  getVerifierKey(),
+  getMetadataKey(),
+  getUsageIndexKey()
+]);
+
+/**
+ * Whether no key was given, e.g. `undefined` or an empty passphrase.
+ */
+const isMissingKey = (key: InputDataType | CryptoKey | undefined): boolean => key === undefined || key === null || key === '';
+
+const toKdfParams = (iterations?: number): IKdfParams => ({ algorithm: 'PBKDF2', hash: 'SHA-256', iterations: iterations ?? DEFAULT_ITERATIONS });
+
+/**
+ * @param device Whether the base key is a device key.
+ * @returns The metadata telling how the key encryption key is obtained from the base key.
+ */
+const toKeyParams = (device: boolean, iterations?: number): Pick<IStoreMetadata, 'kdf' | 'device'> => {
+  return device ? { device: true } : { kdf: toKdfParams(iterations) };
+};
+
+/**
+ * The metadata with the given key parameters in place of the current ones.
+ */
+const withKeyParams = (metadata: IStoreMetadata, keyParams: Pick<IStoreMetadata, 'kdf' | 'device'>): IStoreMetadata => {
+  const rest = { ...metadata };
+  delete rest.kdf;
+  delete rest.device;
+
+  return { ...rest, ...keyParams };
+};
 
 const getAndStoreSalt = async (
-  storePromise: Promise<IDBPDatabase> | IDBPDatabase,
-  name: string,
+  storePromise: Promise<StorageBackend> | StorageBackend,
   salt?: BufferSource
 ): Promise<BufferSource> => {
-  const hash = await generateHash('o-salt'); // original salt
+  const hash = await getSaltKey();
   const store = await storePromise;
   // const [hash, store] = await Promise.all([generateHash('o-salt'), storePromise]);
-  const existingSalt = await store.get(name, hash);
+  const existingSalt = await store.get(hash) as BufferSource | undefined;
+
+  if (existingSalt && (!salt || existingSalt === salt)) {
+    return existingSalt;
+  }
+
+  // store salt, unless another instance has just created the store with its own
+  const saltValue = salt ?? generateSalt();
+
+  return store.transaction('readwrite', async (tx) => {
+    const createdSalt = salt ? undefined : await tx.get(hash) as BufferSource | undefined;
+
+    if (createdSalt) {
+      return createdSalt;
+    }
+
+    await tx.put(hash, saltValue);
+
+    return saltValue;
+  });
+}
+
+/**
+ * Derives the key encryption key, the key used to wrap the data encryption key and encrypt the key verifier, from the base key.
+ * Stores created before data encryption keys existed encrypt their entries with it.
+ * Runs PBKDF2, the result is kept in `IConfigProperties` rather than derived on every call. A device key is the key
+ * encryption key itself.
+ */
+const deriveKeyEncryptionKey = async (baseKey: CryptoKey, salt: BufferSource, iterations?: number, device = false): Promise<CryptoKey> => {
+  if (device) {
+    return baseKey;
+  }
+
+  return deriveKey({
+    key: baseKey,
+    saltOrDeriveAlgorithm: salt,
+    iterationsOrAlgorithmParam: iterations,
+    keyUsages: ['wrapKey', 'unwrapKey', 'encrypt', 'decrypt']
+  });
+};
+
+const KEY_VERIFIER = 'encrypt-storage:key-verifier';
+
+const createVerifier = async (keyEncryptionKey: CryptoKey): Promise<IKeyVerifier> => {
+  const [ciphertext, iv] = await encrypt({ data: KEY_VERIFIER, key: keyEncryptionKey });
+
+  return { iv: iv as BufferSource, ciphertext };
+};
+
+/**
+ * @throws WrongKeyError if the verifier can't be decrypted with the key encryption key.
+ */
+const checkVerifier = async ({ iv, ciphertext }: IKeyVerifier, keyEncryptionKey: CryptoKey): Promise<void> => {
+  try {
+    await decrypt({ data: ciphertext, key: keyEncryptionKey, nonceOrAlgorithm: iv });
+  } catch (e) {
+    throw isAuthenticationError(e) ? new WrongKeyError(WRONG_KEY_ERROR_MESSAGE, e) : e;
+  }
+};
+
+const LOOKUP_KEY_ALGORITHM: HmacImportParams = { name: 'HMAC', hash: 'SHA-256', length: 256 };
+
+const generateLookupKey = (): Promise<CryptoKey> => {
+  return generateDataKey({ algorithm: LOOKUP_KEY_ALGORITHM, keyUsages: ['sign'] });
+};
+
+const wrapLookupKey = async (lookupKey: CryptoKey, keyEncryptionKey: CryptoKey): Promise<Pick<IDataKeyRecord, 'wrappedLookupKey' | 'lookupNonce'>> => {
+  const [wrappedLookupKey, lookupNonce] = await wrapKey({ key: lookupKey, wrappingKey: keyEncryptionKey });
+
+  return { wrappedLookupKey, lookupNonce: lookupNonce as BufferSource };
+};
+
+const wrapDataKey = async ({ dataKey, lookupKey }: Required<IDataKeys>, keyEncryptionKey: CryptoKey): Promise<IDataKeyRecord> => {
+  const [wrappedKey, nonce] = await wrapKey({ key: dataKey, wrappingKey: keyEncryptionKey });
+
+  return { wrappedKey, nonce: nonce as BufferSource, ...await wrapLookupKey(lookupKey, keyEncryptionKey) };
+};
+
+/**
+ * Generates and stores a wrapped data encryption key and lookup key, along with the key verifier and the parameters
+ * of the key encryption key, for a store without entries.
+ * Stores that already have entries encrypted with the derived key keep using it until they are re-keyed.
+ *
+ * @param keyEncryptionKey Only awaited for stores without entries.
+ * @param keyParams How the key encryption key is obtained, see `toKeyParams`.
+ * @returns Promise with whether the keys were created.
+ */
+const createDataKey = async (
+  store: StorageBackend,
+  keyEncryptionKey: Promise<CryptoKey>,
+  keyParams: Pick<IStoreMetadata, 'kdf' | 'device'>
+): Promise<boolean> => {
+  const metaKeys = await getMetaKeys();
+  const [, recordKey, verifierKey, metadataKey] = metaKeys;
+  const [existingKey, records] = await Promise.all([store.get(recordKey), store.iterate(undefined, metaKeys.length + 1, withoutChunks)]);
+
+  // the salt and the metadata are the only records of an empty store
+  if (existingKey !== undefined || records.some(([key]) => !metaKeys.some((metaKey) => isSameBytes(key, metaKey)))) {
+    return false;
+  }
+
+  const record = await wrapDataKey({ dataKey: await generateDataKey(), lookupKey: await generateLookupKey() }, await keyEncryptionKey);
+  const verifier = await createVerifier(await keyEncryptionKey);
+
+  // another instance may have created them meanwhile
+  return store.transaction('readwrite', async (tx) => {
+    if (await tx.get(recordKey) !== undefined) {
+      return false;
+    }
+
+    await tx.put(recordKey, record);
+    await tx.put(verifierKey, verifier);
+    // written in the current format, whatever version the store was given when opened
+    await tx.put(metadataKey, withKeyParams({ ...await tx.get(metadataKey) as IStoreMetadata | undefined, version: FORMAT_VERSION }, keyParams));
+
+    return true;
+  });
+};
+
+/**
+ * The material of the loaded data encryption keys imported as HKDF keys, to derive the keys of the records
+ * encrypted under their own key, see `ISubkeyParams`.
+ * Kept aside so the data key is all the functions encrypting records need, whichever key the record is encrypted under.
+ */
+const subkeyRoots = new WeakMap<CryptoKey, CryptoKey>();
+
+/**
+ * @returns The parameters of the key of a new record, undefined to encrypt it under the data key: when subkeys are
+ * disabled, or the store was created before data encryption keys existed and has nothing to derive them from.
+ */
+const createSubkeyParams = (option: SubkeyOption | undefined, cryptoKey: CryptoKey): ISubkeyParams | undefined => {
+  if (option === undefined || !subkeyRoots.has(cryptoKey)) {
+    return undefined;
+  }
+
+  return option === 'salted' ? { salt: generateRandomValues(16) } : {};
+};
+
+/**
+ * @returns The key a record is encrypted under: its own key derived from the data key with the record identifier
+ * as info, or the data key itself.
+ * @throws TamperedRecordError if the record claims a key that can't be derived from the data key.
+ */
+const getRecordCryptoKey = async (cryptoKey: CryptoKey, info: ArrayBuffer, subkey?: ISubkeyParams): Promise<CryptoKey> => {
+  if (!subkey) {
+    return cryptoKey;
+  }
+
+  const root = subkeyRoots.get(cryptoKey);
+
+  if (!root) {
+    throw new TamperedRecordError(AUTHENTICITY_ERROR_MESSAGE);
+  }
+
+  return deriveKey({ key: root, info, salt: subkey.salt });
+};
+
+/**
+ * Loads the keys used for the entries: the unwrapped data encryption key and lookup key,
+ * or the key encryption key for stores created before data encryption keys existed, which have no lookup key.
+ * Stores created before lookup keys or key verifiers existed get them once the data encryption key, or one of their
+ * entries, is authenticated.
+ *
+ * @throws WrongKeyError if the key verifier, or the data encryption key or the entries of stores without verifier,
+ * can't be decrypted with the key encryption key.
+ * @throws TamperedRecordError if the data encryption key can't be unwrapped with a verified key.
+ */
+const loadDataKeys = async (store: StorageBackend, keyEncryptionKey: CryptoKey, extractable = false): Promise<IDataKeys> => {
+  const [recordKey, verifierKey] = await Promise.all([getDataKeyRecordKey(), getVerifierKey()]);
+  const [record, verifier] = await Promise.all([store.get(recordKey), store.get(verifierKey)]) as [IDataKeyRecord?, IKeyVerifier?];
+
+  if (verifier) {
+    await checkVerifier(verifier, keyEncryptionKey);
+  }
+
+  if (!record) {
+    if (!verifier && await authenticateEntry(store, keyEncryptionKey)) {
+      const newVerifier = await createVerifier(keyEncryptionKey);
+
+      // another instance may have added one meanwhile
+      await store.transaction('readwrite', async (tx) => {
+        if (await tx.get(verifierKey) === undefined) {
+          await tx.put(verifierKey, newVerifier);
+        }
+      });
+    }
+
+    return { dataKey: keyEncryptionKey };
+  }
+
+  let dataKey: CryptoKey;
+
+  try {
+    dataKey = await unwrapKey({ data: record.wrappedKey, key: keyEncryptionKey, nonceOrAlgorithm: record.nonce, extractable });
+  } catch (e) {
+    if (!isAuthenticationError(e)) {
+      throw e;
+    }
+
+    throw verifier ? new TamperedRecordError(AUTHENTICITY_ERROR_MESSAGE, e) : new WrongKeyError(WRONG_KEY_ERROR_MESSAGE, e);
+  }
+
+  subkeyRoots.set(dataKey, await unwrapKey({
+    data: record.wrappedKey,
+    key: keyEncryptionKey,
+    nonceOrAlgorithm: record.nonce,
+    unwrappedKeyAlgorithm: 'HKDF',
+    keyUsages: ['deriveKey']
+  }));
+
+  const lookupKey = record.wrappedLookupKey && record.lookupNonce ? await unwrapKey({
+    data: record.wrappedLookupKey,
+    key: keyEncryptionKey,
+    nonceOrAlgorithm: record.lookupNonce,
+    unwrappedKeyAlgorithm: LOOKUP_KEY_ALGORITHM,
+    keyUsages: ['sign'],
+    extractable
+  }) : undefined;
+
+  if (lookupKey && verifier) {
+    return { dataKey, lookupKey };
+  }
+
+  const wrapped = lookupKey ? undefined : await wrapLookupKey(await generateLookupKey(), keyEncryptionKey);
+  const newVerifier = await createVerifier(keyEncryptionKey);
+
+  // another instance may have added them meanwhile, the first ones are kept
+  await store.transaction('readwrite', async (tx) => {
+    const current = await tx.get(recordKey) as IDataKeyRecord;
+
+    if (wrapped && !current.wrappedLookupKey) {
+      await tx.put(recordKey, { ...current, ...wrapped });
+    }
+
+    if (await tx.get(verifierKey) === undefined) {
+      await tx.put(verifierKey, newVerifier);
+    }
+  });
+
+  // loaded again, so the lookup key is extractable only if asked
+  return lookupKey ? { dataKey, lookupKey } : loadDataKeys(store, keyEncryptionKey, extractable);
+};
+
+/**
+ * Check the given key encryption key against the store without loading the keys.
+ * Stores without verifier nor data encryption key are checked against one of their entries, see `authenticateEntry`.
+ *
+ * @throws WrongKeyError if the key is wrong.
+ */
+const verifyKeyEncryptionKey = async (store: StorageBackend, keyEncryptionKey: CryptoKey): Promise<void> => {
+  const [recordKey, verifierKey] = await Promise.all([getDataKeyRecordKey(), getVerifierKey()]);
+  const [record, verifier] = await Promise.all([store.get(recordKey), store.get(verifierKey)]) as [IDataKeyRecord?, IKeyVerifier?];
+
+  if (verifier) {
+    return checkVerifier(verifier, keyEncryptionKey);
+  }
+
+  if (!record) {
+    await authenticateEntry(store, keyEncryptionKey);
+
+    return;
+  }
+
+  try {
+    await unwrapKey({ data: record.wrappedKey, key: keyEncryptionKey, nonceOrAlgorithm: record.nonce });
+  } catch (e) {
+    throw isAuthenticationError(e) ? new WrongKeyError(WRONG_KEY_ERROR_MESSAGE, e) : e;
+  }
+};
+
+/**
+ * Splits the loaded keys into the data key and lookup key of `IConfigProperties`.
+ * A wrong key is reported by the calls using the keys, the store can still be closed or deleted.
+ */
+const toKeyProperties = (keys: Promise<IDataKeys>): [Promise<CryptoKey>, Promise<CryptoKey | undefined>] => {
+  const dataKey = keys.then(({ dataKey }) => dataKey);
+  const lookupKey = keys.then(({ lookupKey }) => lookupKey);
+
+  dataKey.catch(() => undefined);
+  lookupKey.catch(() => undefined);
+
+  return [dataKey, lookupKey];
+};
+
+export const ENTRY_RECORD_VERSION = 2;
+
+// records of this version are encrypted without additional authenticated data
+const UNBOUND_RECORD_VERSION = 1;
+
+// number of records read at once when iterating over the stored entries
+const ITERATION_PAGE_SIZE = 100;
+
+/**
+ * Entries written before `IEntryRecord` existed keep their nonce in a second record,
+ * every BufferSource key shares the same nonce record.
+ */
+const getNonceKey = (key: InputDataType): string => {
+  if (typeof key === 'string') {
+    return `${key}-nonce`
+  }
+
+  return 'nonce'
+};
+
+const isNonceRecord = (record: INonceRecord | BufferSource | undefined): record is INonceRecord => {
+  return record !== undefined && 'nonce' in record;
+};
+
+const getNonce = (record: INonceRecord | BufferSource | undefined): BufferSource | undefined => {
+  // nonces written before `INonceRecord` existed are stored as bare typed arrays
+  return isNonceRecord(record) ? record.nonce : record;
+};
+
+const isEntryRecord = (value: unknown): value is IEntryRecord => {
+  return typeof value === 'object' && value !== null && 'version' in value && 'ciphertext' in value;
+};
+
+/**
+ * Reads an entry written as a ciphertext record and a nonce record as a single record, encrypted without additional data.
+ */
+const toEntryRecord = (ciphertext: ArrayBuffer, nonce: BufferSource): IEntryRecord => {
+  return { version: UNBOUND_RECORD_VERSION, algorithm: 'AES-GCM', iv: nonce, ciphertext };
+};
+
+/**
+ * Encrypts a part of the entry stored at `recordKey`, bound to it with additional authenticated data.
+ */
+const encryptRecord = async (
+  data: BufferSource,
+  cryptoKey: CryptoKey,
+  recordKey: ArrayBuffer,
+  storeName: string,
+  part: RecordPart = 'value',
+  subkey?: ISubkeyParams
+): Promise<IEntryRecord> => {
+  const additionalData = getAdditionalData(recordKey, storeName, part, ENTRY_RECORD_VERSION);
+  const key = await getRecordCryptoKey(cryptoKey, recordKey, subkey);
+  const [ciphertext, iv] = await encrypt({ data, key, additionalData });
+
+  return { version: ENTRY_RECORD_VERSION, algorithm: 'AES-GCM', iv: iv as BufferSource, ciphertext, ...subkey && { subkey } };
+};
+
+/**
+ * Encrypts the original key of an entry, kept in its record so the stored entries can be listed.
+ * The expiry of the entry is encrypted along, so listing keys doesn't need to decrypt the values.
+ */
+const encryptEntryKey = async (
+  key: InputDataType,
+  cryptoKey: CryptoKey,
+  recordKey: ArrayBuffer,
+  storeName: string,
+  expiresAt?: number,
+  subkey?: ISubkeyParams
+): Promise<IEncryptedKey> => {
+  const serialized = await serialize(key);
+  const data = expiresAt !== undefined ? addExpiry(serialized, expiresAt) : serialized;
+  // under the key of its record
+  const { iv, ciphertext } = await encryptRecord(data, cryptoKey, recordKey, storeName, 'key', subkey);
+
+  return { iv, ciphertext };
+};
+
+/**
+ * The encrypted original key of an entry record, as a record to be decrypted with `decryptRecord`.
+ */
+const toEntryKeyRecord = (record: IEntryRecord, { iv, ciphertext }: IEncryptedKey): IEntryRecord => {
+  return { ...record, iv, ciphertext };
+};
+
+/**
+ * Decrypts a part of the entry stored at `recordKey`.
+ *
+ * @throws TamperedRecordError if the record can't be decrypted with the given key, or was moved from another record.
+ * @throws UnsupportedFormatError if the record was written in a newer format.
+ */
+const decryptRecord = async (
+  { version, algorithm, iv, ciphertext, subkey }: IEntryRecord,
+  cryptoKey: CryptoKey,
+  recordKey: ArrayBuffer,
+  storeName: string,
+  part: RecordPart = 'value'
+): Promise<ArrayBuffer> => {
+  if (version !== ENTRY_RECORD_VERSION && version !== UNBOUND_RECORD_VERSION) {
+    throw new UnsupportedFormatError(UNSUPPORTED_FORMAT_ERROR_MESSAGE);
+  }
+
+  const additionalData = version === UNBOUND_RECORD_VERSION ? undefined : getAdditionalData(recordKey, storeName, part, version);
+  const key = await getRecordCryptoKey(cryptoKey, recordKey, subkey);
+
+  try {
+    return await decrypt({ data: ciphertext, key, nonceOrAlgorithm: { name: algorithm, iv } as AesGcmParams, additionalData });
+  } catch (e) {
+    throw isAuthenticationError(e) ? new TamperedRecordError(AUTHENTICITY_ERROR_MESSAGE, e) : e;
+  }
+};
+
+/**
+ * Checks the key encryption key of a store created before data encryption keys and key verifiers existed against its
+ * entries, the key encryption key being the key they are encrypted with. The records are read page by page until an entry
+ * record authenticates, ciphertexts of the oldest format are tried with their nonce records once the store is read.
+ *
+ * @returns Promise with whether an entry authenticated, false if the store has no entry to check the key against.
+ * @throws WrongKeyError if no entry can be decrypted with the key encryption key.
+ */
+const authenticateEntry = async (store: StorageBackend, keyEncryptionKey: CryptoKey): Promise<boolean> => {
+  const metaKeys = await getMetaKeys();
+  const ciphertexts: [ArrayBuffer, ArrayBuffer][] = [];
+  const nonces: (INonceRecord | BufferSource)[] = [];
+  let after: ArrayBuffer | undefined;
+
+  const isAuthentic = (decrypted: Promise<ArrayBuffer>): Promise<boolean> => decrypted.then(() => true, (e) => {
+    if (!(e instanceof TamperedRecordError)) {
+      throw e;
+    }
+
+    return false;
+  });
+
+  for (;;) {
+    const page = await store.iterate(after, ITERATION_PAGE_SIZE, withoutChunks);
+
+    for (const [recordKey, record] of page) {
+      if (metaKeys.some((metaKey) => isSameBytes(recordKey, metaKey)) || isChunkRecord(record)) {
+        continue;
+      }
+
+      if (isEntryRecord(record)) {
+        if (await isAuthentic(decryptRecord(record, keyEncryptionKey, recordKey, store.name))) {
+          return true;
+        }
+
+        throw new WrongKeyError(WRONG_KEY_ERROR_MESSAGE);
+      }
+
+      if (record instanceof ArrayBuffer) {
+        ciphertexts.push([recordKey, record]);
+      } else {
+        nonces.push(record as INonceRecord | BufferSource);
+      }
+    }
+
+    if (page.length < ITERATION_PAGE_SIZE) {
+      break;
+    }
+
+    [after] = page[page.length - 1];
+  }
+
+  let tried = false;
+
+  // a nonce record points back to its ciphertext, a bare nonce may belong to any of them
+  for (const [recordKey, ciphertext] of ciphertexts) {
+    const linked = nonces.find((nonce) => !isTypedArray(nonce) && isSameBytes(nonce.ref, recordKey));
+
+    for (const nonce of linked ? [linked] : nonces.filter((nonce) => isTypedArray(nonce))) {
+      tried = true;
+
+      if (await isAuthentic(decryptRecord(toEntryRecord(ciphertext, getNonce(nonce) as BufferSource), keyEncryptionKey, recordKey, store.name))) {
+        return true;
+      }
+    }
+  }
+
+  if (tried) {
+    throw new WrongKeyError(WRONG_KEY_ERROR_MESSAGE);
+  }
+
+  return false;
+};
+
+const getExpiresAt = ({ ttl, expiresAt }: ISetOptions): number | undefined => {
+  if (expiresAt !== undefined) {
+    return expiresAt instanceof Date ? expiresAt.getTime() : expiresAt;
+  }
+
+  return ttl !== undefined ? Date.now() + ttl : undefined;
+};
+
+const isExpired = (expiresAt?: number): boolean => expiresAt !== undefined && expiresAt <= Date.now();
+
+/**
+ * The identifier of an entry record: the HMAC of the key under the lookup key, so the stored identifiers
+ * can't be matched against guessed keys. Stores without a lookup key use the SHA-256 of the key.
+ */
+const getLookupId = (key: InputDataType, lookupKey?: CryptoKey): Promise<ArrayBuffer> => {
+  return lookupKey ? generateHmac({ data: key, key: lookupKey }) : generateHash(key);
+};
+
+/**
+ * Keys of the records of an entry: the entry record, the entry record written before lookup keys existed
+ * and the nonce record of entries written before `IEntryRecord` existed.
+ */
+type RecordKeys = [ArrayBuffer, ArrayBuffer, ArrayBuffer];
+
+/**
+ * The records found at `RecordKeys`. Without lookup key, the entry record is the one written before lookup keys existed:
+ * a ciphertext of the oldest format or an entry record.
+ */
+type StoredRecords = [IEntryRecord | ArrayBuffer | undefined, IEntryRecord | ArrayBuffer | undefined, INonceRecord | BufferSource | undefined];
+
+const getRecordKeys = (key: InputDataType, lookupKey?: CryptoKey): Promise<RecordKeys> => {
+  return Promise.all([getLookupId(key, lookupKey), generateHash(key), generateHash(getNonceKey(key))]);
+};
+
+/**
+ * Keys of the records of an older format that are replaced once the entry record is written.
+ */
+const getStaleKeys = ([recordKey, legacyKey, nonceKey]: RecordKeys): ArrayBuffer[] => {
+  return isSameBytes(recordKey, legacyKey) ? [nonceKey] : [legacyKey, nonceKey];
+};
+
+// size of the chunks of the Blobs saved with `setBlob`
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const CHUNK_KEY_PREFIX = 'o-chunk:';
+
+/**
+ * Chunk records are keyed by the random identifier of their Blob, so they are found without hashing inside a transaction.
+ */
+const getChunkKey = (blob: string, index: number): ArrayBuffer => (encode(`${CHUNK_KEY_PREFIX}${blob}:${index}`) as Uint8Array).buffer;
+
+/**
+ * Whether a record key is the key of a chunk, the other records are keyed by hashes.
+ */
+const isChunkKey = (recordKey: ArrayBuffer): boolean => decode(recordKey.slice(0, CHUNK_KEY_PREFIX.length)) === CHUNK_KEY_PREFIX;
+
+/**
+ * Filter of `StorageBackend.iterate` skipping the chunks, so walking the entries doesn't read the Blobs saved with `setBlob`.
+ */
+const withoutChunks = (recordKey: ArrayBuffer): boolean => !isChunkKey(recordKey);
+
+const isChunkRecord = (value: unknown): value is IChunkRecord => {
+  return typeof value === 'object' && value !== null && 'blob' in value && 'index' in value;
+};
+
+/**
+ * @param chunkBytes The size of the chunk records by Blob identifier.
+ * @returns The chunks an entry record points to, from its decrypted value, undefined for the other values.
+ */
+const getChunksRef = (data: BufferSource, chunkBytes: ReadonlyMap<string, number>): IEntryRecord['chunks'] => {
+  const manifest = readChunkManifest(data);
+
+  return manifest && { id: manifest.id, total: manifest.total, bytes: chunkBytes.get(manifest.id) ?? 0 };
+};
+
+/**
+ * @returns The size of the given chunk records by Blob identifier.
+ */
+const getChunkBytes = (chunks: [ArrayBuffer, IChunkRecord][]): Map<string, number> => {
+  return chunks.reduce((bytes, [, chunk]) => bytes.set(chunk.blob, (bytes.get(chunk.blob) ?? 0) + getRecordSize(chunk)), new Map<string, number>());
+};
+
+/**
+ * The size of a record along with the chunks it points to, read from the record rather than the chunks.
+ */
+const getStoredSize = (record: unknown): number => getRecordSize(record) + (isEntryRecord(record) ? record.chunks?.bytes ?? 0 : 0);
+
+const encryptChunk = async (
+  data: BufferSource,
+  cryptoKey: CryptoKey,
+  storeName: string,
+  blob: string,
+  index: number,
+  total: number,
+  subkey?: ISubkeyParams
+): Promise<IChunkRecord> => {
+  const key = await getRecordCryptoKey(cryptoKey, getChunkKey(blob, index), subkey);
+  const [ciphertext, iv] = await encrypt({ data, key, additionalData: getChunkAdditionalData(storeName, blob, index, total) });
+
+  return { blob, index, total, iv: iv as BufferSource, ciphertext, ...subkey && { subkey } };
+};
+
+/**
+ * Decrypts a chunk at the position the manifest expects it.
+ *
+ * @throws TamperedRecordError if the chunk is missing, or can't be decrypted at this position.
+ */
+const decryptChunk = async (
+  record: IChunkRecord | undefined,
+  cryptoKey: CryptoKey,
+  storeName: string,
+  { id, total }: Pick<IChunkManifest, 'id' | 'total'>,
+  index: number
+): Promise<ArrayBuffer> => {
+  if (!record) {
+    throw new TamperedRecordError(AUTHENTICITY_ERROR_MESSAGE);
+  }
+
+  const key = await getRecordCryptoKey(cryptoKey, getChunkKey(id, index), record.subkey);
+
+  try {
+    return await decrypt({
+      data: record.ciphertext,
+      key,
+      nonceOrAlgorithm: record.iv,
+      additionalData: getChunkAdditionalData(storeName, id, index, total)
+    });
+  } catch (e) {
+    throw isAuthenticationError(e) ? new TamperedRecordError(AUTHENTICITY_ERROR_MESSAGE, e) : e;
+  }
+};
+
+/**
+ * Streams the decrypted chunks of a Blob, reading each chunk once the previous one is consumed.
+ */
+const streamChunks = (store: StorageBackend, cryptoKey: CryptoKey, manifest: IChunkManifest): ReadableStream<Uint8Array> => {
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      const record = await store.get(getChunkKey(manifest.id, index)) as IChunkRecord | undefined;
+      controller.enqueue(new Uint8Array(await decryptChunk(record, cryptoKey, store.name, manifest, index)));
+
+      if (++index === manifest.total) {
+        controller.close();
+      }
+    }
+  });
+};
+
+const readChunkedBlob = async (store: StorageBackend, cryptoKey: CryptoKey, manifest: IChunkManifest): Promise<Blob> => {
+  const parts: ArrayBuffer[] = [];
+
+  for (let index = 0; index < manifest.total; index++) {
+    parts.push(await decryptChunk(await store.get(getChunkKey(manifest.id, index)) as IChunkRecord | undefined, cryptoKey, store.name, manifest, index));
+  }
+
+  return new Blob(parts, { type: manifest.type });
+};
+
+/**
+ * Restores the value of an entry from its decrypted data, without its expiry.
+ * Blobs saved in chunks are read back whole.
+ */
+const readValue = async <T>(store: StorageBackend, cryptoKey: CryptoKey, data: BufferSource): Promise<T> => {
+  const manifest = readChunkManifest(data);
+
+  return manifest
+    ? await readChunkedBlob(store, cryptoKey, manifest) as unknown as T
+    : deserialize<T>(await decompress(data));
+};
+
+/**
+ * Restores the value of an entry for its change notification. Blobs saved in chunks are not read back,
+ * their changes carry no value.
+ */
+const readChangeValue = async <T>(store: StorageBackend, cryptoKey: CryptoKey, data: BufferSource): Promise<T | undefined> => {
+  return readChunkManifest(data) ? undefined : readValue<T>(store, cryptoKey, data);
+};
+
+/**
+ * @throws TypeError if the value is neither a Blob nor binary.
+ */
+const toBlob = (value: unknown): Blob => {
+  if (value instanceof Blob) {
+    return value;
+  }
+
+  if (isTypedArray(value)) {
+    return new Blob([value]);
+  }
+
+  throw new TypeError(NOT_BINARY_ERROR_MESSAGE);
+};
+
+/**
+ * Puts and deletes records in one transaction.
+ * The chunks of the replaced or deleted entries saved with `setBlob` are deleted along, unless a written record still points to them.
+ */
+const writeRecords = async (
+  store: StorageBackend,
+  puts: [ArrayBuffer, unknown][],
+  deletes: ArrayBuffer[] = []
+): Promise<void> => {
+  const written = new Set(puts.map(([recordKey]) => toBase64(recordKey)));
+  const kept = new Set(puts.map(([, value]) => (value as IEntryRecord | undefined)?.chunks?.id).filter((id) => id !== undefined));
+
+  await store.transaction('readwrite', async (tx) => {
+    // read before anything is written, the requests of a transaction run in order
+    const previous = await Promise.all([...deletes, ...puts.map(([recordKey]) => recordKey)].map((recordKey) => tx.get(recordKey)));
+    const orphans = previous
+      .map((record) => (record as IEntryRecord | undefined)?.chunks)
+      .filter((chunks): chunks is NonNullable<IEntryRecord['chunks']> => !!chunks && !kept.has(chunks.id))
+      .reduce((keys, { id, total }) => keys.concat(Array.from({ length: total }, (_, index) => getChunkKey(id, index))), [] as ArrayBuffer[])
+      .filter((chunkKey) => !written.has(toBase64(chunkKey)));
+
+    await Promise.all([
+      ...deletes.concat(orphans).map((recordKey) => tx.delete(recordKey)),
+      ...puts.map(([recordKey, value]) => tx.put(recordKey, value))
+    ]);
+  });
+};
+
+/**
+ * Whether a record that is not a meta record is an entry: an entry record, or a ciphertext of the oldest format.
+ */
+const isEntryValue = (value: unknown): boolean => isEntryRecord(value) || value instanceof ArrayBuffer;
+
+/**
+ * Reads the last use times of the entries by base64 lookup identifier.
+ * The index is encrypted like an entry, so it tells nothing about the entries nor how they are used.
+ */
+const readUsageIndex = async (store: StorageBackend, cryptoKey: CryptoKey): Promise<Map<string, number>> => {
+  const indexKey = await getUsageIndexKey();
+  const record = await store.get(indexKey) as IEntryRecord | undefined;
+
+  return record ? deserialize<Map<string, number>>(await decryptRecord(record, cryptoKey, indexKey, store.name)) : new Map();
+};
+
+let lastUseTime = 0;
+
+/**
+ * @returns The current time, later than the last one given so uses in the same millisecond keep their order.
+ */
+const getUseTime = (): number => lastUseTime = Math.max(Date.now(), lastUseTime + 1);
+
+interface ILimits {
+  maxBytes?: number;
+  maxEntries?: number;
+  onLimit: LimitPolicy;
+  // last use times of the entries read since the usage index was last written, by base64 lookup identifier
+  lastUsed: Map<string, number>;
+}
+
+/**
+ * Checks the records a write leaves against the limits, evicting the least recently used entries if the policy allows.
+ * The store is read whole but for the chunks, counted from the entries pointing to them, which its limits keep small.
+ * With the 'evict' policy, the usage index is written along.
+ *
+ * @returns Promise with the records to put and delete, and the evicted entry records.
+ * @throws QuotaExceededError if the records don't fit.
+ */
+const fitLimits = async (
+  store: StorageBackend,
+  cryptoKey: CryptoKey,
+  puts: [ArrayBuffer, unknown][],
+  deletes: ArrayBuffer[],
+  { maxBytes = Infinity, maxEntries = Infinity, onLimit, lastUsed }: ILimits
+): Promise<[puts: [ArrayBuffer, unknown][], deletes: ArrayBuffer[], evicted: [ArrayBuffer, IEntryRecord][]]> => {
+  const metaKeys = (await getMetaKeys()).map(toBase64);
+  // what the store holds once written, the chunks go along with the entries pointing to them, see `writeRecords`
+  const records = new Map((await store.iterate(undefined, undefined, withoutChunks)).map(([recordKey, record]) => [toBase64(recordKey), record]));
+  const written = new Set(puts.map(([recordKey]) => toBase64(recordKey)));
+
+  deletes.forEach((recordKey) => records.delete(toBase64(recordKey)));
+  puts
+    .filter(([recordKey]) => withoutChunks(recordKey))
+    .forEach(([recordKey, record]) => records.set(toBase64(recordKey), record));
+
+  const entryIds = (): string[] => Array.from(records.keys()).filter((id) => !metaKeys.includes(id) && isEntryValue(records.get(id)));
+  const isOver = (): boolean => entryIds().length > maxEntries
+    || Array.from(records.values()).reduce<number>((size, record) => size + getStoredSize(record), 0) > maxBytes;
+
+  if (onLimit === 'throw') {
+    if (isOver()) {
+      throw new QuotaExceededError(LIMIT_EXCEEDED_ERROR_MESSAGE);
+    }
+
+    return [puts, deletes, []];
+  }
+
+  const usedAt = await readUsageIndex(store, cryptoKey);
+  lastUsed.forEach((time, id) => usedAt.set(id, Math.max(time, usedAt.get(id) ?? 0)));
+  written.forEach((id) => usedAt.set(id, getUseTime()));
+
+  // entries of the oldest format have nonce records of their own and are not evicted
+  const candidates = entryIds()
+    .filter((id) => !written.has(id) && isEntryRecord(records.get(id)))
+    .sort((a, b) => (usedAt.get(a) ?? 0) - (usedAt.get(b) ?? 0));
+  const evicted: [ArrayBuffer, IEntryRecord][] = [];
+
+  while (isOver()) {
+    const id = candidates.shift();
+
+    if (id === undefined) {
+      throw new QuotaExceededError(LIMIT_EXCEEDED_ERROR_MESSAGE);
+    }
+
+    evicted.push([fromBase64(id).buffer, records.get(id) as IEntryRecord]);
+    records.delete(id);
+  }
+
+  const ids = new Set(entryIds());
+  const index = new Map(Array.from(usedAt).filter(([id]) => ids.has(id)));
+  const indexKey = await getUsageIndexKey();
+  lastUsed.clear();
+
+  return [
+    [...puts, [indexKey, await encryptRecord(await serialize(index), cryptoKey, indexKey, store.name)]],
+    [...deletes, ...evicted.map(([recordKey]) => recordKey)],
+    evicted
+  ];
+};
+
+/**
+ * Removes entries, the entry records and their nonce records, in one transaction.
+ */
+const deleteRecords = (store: StorageBackend, recordKeys: RecordKeys[]): Promise<void> => {
+  return writeRecords(store, [], ([] as ArrayBuffer[]).concat(...recordKeys));
+};
+
+/**
+ * Decrypts the original key and, if a `read` function is given, the value of an entry record that has its original key.
+ *
+ * @returns The [key, value] pair, undefined if the entry has expired.
+ */
+const decryptEntry = async <K, T>(
+  record: IEntryRecord,
+  cryptoKey: CryptoKey,
+  recordKey: ArrayBuffer,
+  store: StorageBackend,
+  read?: (store: StorageBackend, cryptoKey: CryptoKey, data: BufferSource) => Promise<T>
+): Promise<[K, T] | undefined> => {
+  const keyRecord = toEntryKeyRecord(record, record.encryptedKey as IEncryptedKey);
+  const { expiresAt, data: key } = readExpiry(await decryptRecord(keyRecord, cryptoKey, recordKey, store.name, 'key'));
+
+  if (isExpired(expiresAt)) {
+    return undefined;
+  }
+
+  const value = read
+    ? await read(store, cryptoKey, readExpiry(await decryptRecord(record, cryptoKey, recordKey, store.name)).data)
+    : undefined as never;
+
+  return [deserialize<K>(key), value];
+};
+
+interface IDecryptedEntry {
+  dataKey: ArrayBuffer;
+  // only for entries written before `IEntryRecord` existed
+  nonceKey?: ArrayBuffer;
+  plaintext: ArrayBuffer;
+  // the original key, if the record has it
+  keyPlaintext?: ArrayBuffer;
+}
+
+/**
+ * Loads and decrypts every stored entry.
+ * Ciphertexts written before `IEntryRecord` existed are paired with their nonce record: nonce records point back to
+ * their ciphertext, older bare nonces are paired by trying them until one authenticates.
+ *
+ * @param store
+ * @param cryptoKey
+ * @param failed <optional> Collects the identifiers of the entries that can't be decrypted, which are then skipped.
+ * @throws TamperedRecordError if any entry can't be decrypted with the given key, unless `failed` is given.
+ * @throws MissingNonceError if an entry of the oldest format has no nonce left to try, unless `failed` is given.
+ */
+const decryptAllEntries = async (
+  store: StorageBackend,
+  cryptoKey: CryptoKey,
+  failed?: ArrayBuffer[]
+): Promise<IDecryptedEntry[]> => {
+  const metaKeys = await getMetaKeys();
+  const records = (await store.iterate(undefined, undefined, withoutChunks))
+    .map(([key, value]) => ({ key, value }))
+    .filter(({ key }) => !metaKeys.some((metaKey) => isSameBytes(key, metaKey)));
+
+  const entryRecords = records.filter((record): record is { key: ArrayBuffer, value: IEntryRecord } => isEntryRecord(record.value));
+  const ciphertexts = records.filter((record): record is { key: ArrayBuffer, value: ArrayBuffer } => record.value instanceof ArrayBuffer);
+  const nonces = records
+    .filter(({ value }) => !(value instanceof ArrayBuffer) && !isEntryRecord(value) && !isChunkRecord(value))
+    .map(({ key, value }) => ({ key, value: value as INonceRecord | BufferSource }));
+  const linked = nonces.filter(({ value }) => !isTypedArray(value));
+  const bare = nonces.filter(({ value }) => isTypedArray(value));
+
+  const entries: IDecryptedEntry[] = [];
+
+  for (const { key, value } of entryRecords) {
+    try {
+      entries.push({
+        dataKey: key,
+        plaintext: await decryptRecord(value, cryptoKey, key, store.name),
+        keyPlaintext: value.encryptedKey
+          ? await decryptRecord(toEntryKeyRecord(value, value.encryptedKey), cryptoKey, key, store.name, 'key')
+          : undefined
+      });
+    } catch (e) {
+      if (!failed || !(e instanceof TamperedRecordError)) {
+        throw e;
+      }
+
+      failed.push(key);
+    }
+  }
+
+  for (const ciphertext of ciphertexts) {
+    const link = linked.find(({ value }) => isSameBytes((value as INonceRecord).ref, ciphertext.key));
+    let entry: IDecryptedEntry | undefined;
+
+    for (const candidate of link ? [link] : bare) {
+      const record = toEntryRecord(ciphertext.value, getNonce(candidate.value) as BufferSource);
+      const plaintext = await decryptRecord(record, cryptoKey, ciphertext.key, store.name).catch((e) => {
+        if (!(e instanceof TamperedRecordError)) {
+          throw e;
+        }
+      });
+
+      if (plaintext) {
+        entry = { dataKey: ciphertext.key, nonceKey: candidate.key, plaintext };
+
+        if (!link) {
+          bare.splice(bare.indexOf(candidate), 1);
+        }
+        break;
+      }
+    }
+
+    if (!entry && failed) {
+      failed.push(ciphertext.key);
+      continue;
+    }
+
+    if (!entry) {
+      throw link !== undefined || bare.length > 0 ? new TamperedRecordError(AUTHENTICITY_ERROR_MESSAGE) : new MissingNonceError(MISSING_NONCE_ERROR_MESSAGE);
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+};
+
+/**
+ * Encrypts a decrypted entry again under the given data key, or under its own key derived from it with `subkeys`. Entries with their original key are moved to their
+ * lookup identifier, the others stay at their identifier until they are read or saved again.
+ *
+ * @param chunkBytes The size of the chunks encrypted again along, by Blob identifier.
+ * @returns The record key and the entry record.
+ */
+const reencryptEntry = async (
+  { dataKey: currentRecordKey, plaintext, keyPlaintext }: IDecryptedEntry,
+  dataKey: CryptoKey,
+  lookupKey: CryptoKey | undefined,
+  storeName: string,
+  chunkBytes: ReadonlyMap<string, number>,
+  subkeys?: SubkeyOption
+): Promise<[ArrayBuffer, IEntryRecord]> => {
+  const recordKey = keyPlaintext
+    ? await getLookupId(deserialize<InputDataType>(readExpiry(keyPlaintext).data), lookupKey)
+    : currentRecordKey;
+  const subkey = createSubkeyParams(subkeys, dataKey);
+  const record = await encryptRecord(plaintext, dataKey, recordKey, storeName, 'value', subkey);
+  const chunks = getChunksRef(readExpiry(plaintext).data, chunkBytes);
+
+  if (keyPlaintext) {
+    const { iv, ciphertext } = await encryptRecord(keyPlaintext, dataKey, recordKey, storeName, 'key', subkey);
+    record.encryptedKey = { iv, ciphertext };
+  }
+
+  return [recordKey, chunks ? { ...record, chunks } : record];
+};
+
+/**
+ * Encrypts every Blob chunk of the store again under the given data key, for the given store.
+ * Chunks stay at their record key, it only depends on their Blob and position.
+ *
+ * @throws TamperedRecordError if any chunk can't be decrypted with the current key.
+ */
+const reencryptChunks = async (
+  store: StorageBackend,
+  cryptoKey: CryptoKey,
+  dataKey: CryptoKey,
+  storeName: string,
+  subkeys?: SubkeyOption
+): Promise<[ArrayBuffer, IChunkRecord][]> => {
+  const records: [ArrayBuffer, IChunkRecord][] = [];
+
+  for (const [chunkKey, record] of await store.iterate(undefined, undefined, isChunkKey)) {
+    if (isChunkRecord(record)) {
+      const { blob, index, total } = record;
+      const plaintext = await decryptChunk(record, cryptoKey, store.name, { id: blob, total }, index);
+      records.push([chunkKey, await encryptChunk(plaintext, dataKey, storeName, blob, index, total, createSubkeyParams(subkeys, dataKey))]);
+    }
+  }
+
+  return records;
+};
+
+/**
+ * Encrypts the entries and Blob chunks of a store created before data encryption keys existed, written with the key
+ * encryption key, under the given keys. Their nonce records are left out, and the entries whose original key is
+ * known move to their lookup identifier.
+ *
+ * @returns Promise with the records to write and the records they replace.
+ * @throws TamperedRecordError if any entry or chunk can't be decrypted with the key encryption key.
+ * @throws MissingNonceError if an entry of the oldest format has no nonce left to try.
+ */
+const reencryptLegacyEntries = async (
+  store: StorageBackend,
+  keyEncryptionKey: CryptoKey,
+  { dataKey, lookupKey }: Required<IDataKeys>,
+  onProgress?: IRekeyOptions['onProgress']
+): Promise<[puts: [ArrayBuffer, unknown][], deletes: ArrayBuffer[]]> => {
+  const entries = await decryptAllEntries(store, keyEncryptionKey);
+  const chunks = await reencryptChunks(store, keyEncryptionKey, dataKey, store.name);
+  const chunkBytes = getChunkBytes(chunks);
+  const puts: [ArrayBuffer, unknown][] = [];
+  const deletes: ArrayBuffer[] = [];
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    const [recordKey, record] = await reencryptEntry(entry, dataKey, lookupKey, store.name, chunkBytes);
+
+    puts.push([recordKey, record]);
+    deletes.push(...[entry.dataKey, entry.nonceKey].filter((key): key is ArrayBuffer => !!key && !isSameBytes(key, recordKey)));
+
+    onProgress?.({ done: index + 1, total: entries.length });
+  }
+
+  puts.push(...chunks);
+  // encrypted with the former key, the last uses are recorded again
+  deletes.push(await getUsageIndexKey());
+
+  return [puts, deletes];
+};
+
+/**
+ * Version 2: the stores created before data encryption keys existed, whose entries are encrypted with the key
+ * encryption key next to their nonce records, get a wrapped data encryption key and lookup key, and their entries
+ * are encrypted again under them. The entries written before their original key was kept stay at their SHA-256
+ * identifier until they are read, the lookup identifier can only be computed from the original key.
+ * Stores that already have a data encryption key are left as they are.
+ */
+const DATA_KEY_MIGRATION: IMigration<[puts: [ArrayBuffer, unknown][], deletes: ArrayBuffer[]] | undefined> = {
+  version: 2,
+  async prepare(store, keyEncryptionKey) {
+    const dataKeyRecordKey = await getDataKeyRecordKey();
+
+    if (await store.get(dataKeyRecordKey) !== undefined) {
+      return undefined;
+    }
+
+    const keys = { dataKey: await generateDataKey(), lookupKey: await generateLookupKey() };
+    const [puts, deletes] = await reencryptLegacyEntries(store, keyEncryptionKey, keys);
+
+    return [[[dataKeyRecordKey, await wrapDataKey(keys, keyEncryptionKey)], ...puts], deletes];
+  },
+  async migrate(tx, prepared) {
+    if (prepared) {
+      const [puts, deletes] = prepared;
+
+      await Promise.all([
+        ...deletes.map((recordKey) => tx.delete(recordKey)),
+        ...puts.map(([recordKey, value]) => tx.put(recordKey, value))
+      ]);
+    }
+  }
+};
+
+/**
+ * The registered migrations, see `migrateStore`.
+ */
+const MIGRATIONS: IMigration[] = [DATA_KEY_MIGRATION];
+
+const BACKUP_FORMAT = 'encrypt-storage-backup';
+const BACKUP_VERSION = 1;
+
+/**
+ * Parses and checks the structure of a backup made by `exportBackup`.
+ * Bundles of older versions are accepted, their records are migrated like the stored ones once imported.
+ *
+ * @throws UnsupportedFormatError with INVALID_BACKUP_ERROR_MESSAGE if it's not a backup,
+ * with UNSUPPORTED_BACKUP_VERSION_ERROR_MESSAGE if it was made by a newer version.
+ */
+const parseBackup = (json: string): IBackupBundle => {
+  let bundle: IBackupBundle;
+
+  try {
+    bundle = parseRecord<IBackupBundle>(json);
+  } catch (e) {
+    throw new UnsupportedFormatError(INVALID_BACKUP_ERROR_MESSAGE, e);
+  }
+
+  const isBundle = bundle?.format === BACKUP_FORMAT
+    && Number.isInteger(bundle.version)
+    && isTypedArray(bundle.kdf?.salt)
+    && typeof bundle.kdf.iterations === 'number'
+    && typeof bundle.store === 'string'
+    && Array.isArray(bundle.records)
+    && bundle.records.every((record) => Array.isArray(record) && record[0] instanceof ArrayBuffer);
+
+  if (!isBundle) {
+    throw new UnsupportedFormatError(INVALID_BACKUP_ERROR_MESSAGE);
+  }
+
+  if (bundle.version > BACKUP_VERSION) {
+    throw new UnsupportedFormatError(UNSUPPORTED_BACKUP_VERSION_ERROR_MESSAGE);
+  }
+
+  return bundle;
+};
+
+/**
+ * What the storage's properties become once it's locked or closed, unhandled until awaited.
+ */
+const toRejectedProperties = (error: Error): Promise<IConfigProperties> => {
+  const rejected = Promise.reject(error);
+  rejected.catch(() => undefined);
+
+  return rejected;
+};
+
+type ChangeHandler = (change: IStorageChange, id?: string) => void;
+
+/**
+ * A failing listener doesn't stop the others nor the change, its error is reported like in event listeners.
+ */
+const callListener = (call: () => void): void => {
+  try {
+    call();
+  } catch (e) {
+    setTimeout(() => {
+      throw e;
+    });
+  }
+};
+
+export class EncryptStorage {
+  private _properties: Promise<IConfigProperties>;
+  // the backend stays open while the storage is locked
+  private _store: Promise<StorageBackend>;
+  // what `unlock` needs along with the key, only while the storage is locked
+  private _lockedState?: { salt: BufferSource, iterations?: number, device: boolean };
+  private _purgeTimer?: ReturnType<typeof setInterval>;
+  private _lockTimer?: ReturnType<typeof setTimeout>;
+  private _lockAfter?: number;
+  private _onVisibilityChange?: () => void;
+  private _listeners: { [E in keyof IStorageEvents]: Set<IStorageEvents[E]> } = {
+    change: new Set(),
+    locked: new Set(),
+    unlocked: new Set()
+  };
+  // watchers get the base64 lookup identifier of the changed entry along with the change
+  private _watchers = new Set<ChangeHandler>();
+  private _channel?: ChangeChannel;
+  private _compression?: CompressionOption;
+  private _subkeys?: SubkeyOption;
+  // hash of the database name, set once the backend is opened
+  private _dbHash?: ArrayBuffer;
+  // to find the device key of the store
+  private _storeHash?: ArrayBuffer;
+  private _indexedDB?: IDBFactory;
+  // only with `maxBytes` or `maxEntries`
+  private _limits?: ILimits;
+
+  /**
+   *
+   * @param config IStorageConfig
+   * @param config.baseKey A cryptoKey
+   * @param config.device protect the store with a random key kept on this device instead of `key`
+   * @param config.db database name used to store data. Default: <default-db>
+   * @param config.name A name of store Default: <default-name>
+   * @param config.backend where the encrypted records are kept. Default: 'indexedDB'
+   * @param config.indexedDB IndexedDB implementation, e.g. in Node. Default: the global one
+   * @param salt A salt used to encrypt the stored data
+   * @param iterations iteration cycles to encrypt the stored data. Default: the ones the store was created or re-keyed with
+   * @param purgeInterval interval in milliseconds to delete the expired entries
+   * @param lockAfter idle time in milliseconds after which the storage is locked
+   * @param lockWhenHidden lock the storage when the page is hidden
+   * @param compression compress the values before encrypting them: 'gzip', 'deflate' or 'auto'
+   * @param maxBytes maximum encrypted size in bytes of the store
+   * @param maxEntries maximum number of entries of the store
+   * @param subkeys encrypt each entry under its own key derived with HKDF: 'lookup' or 'salted'
+   * @param onLimit 'throw' a `QuotaExceededError` or 'evict' the least recently used entries when a write goes over the limits
+   */
+  constructor(config: IStorageConfig) {
+    if (isMissingKey(config.key) && config.device !== true) {
+      throw new MissingKeyError(CRYPTO_KEY_ERROR_MESSAGE);
+    }
+
+    const opened = this._open(config);
+    this._properties = this._init(config, opened);
+    // once opened, the store can be closed or deleted even when its key can't be loaded
+    this._store = this._properties.then(([store]) => store, () => opened);
+    this._store.catch(() => undefined);
+
+    if (config.purgeInterval !== undefined && config.purgeInterval > 0) {
+      this._purgeTimer = setInterval(() => {
+        this.purgeExpired().catch(() => undefined);
+      }, config.purgeInterval);
+    }
+
+    this._lockAfter = config.lockAfter;
+    this._compression = config.compression;
+    this._subkeys = config.subkeys;
+
+    if (config.maxBytes !== undefined || config.maxEntries !== undefined) {
+      this._limits = { maxBytes: config.maxBytes, maxEntries: config.maxEntries, onLimit: config.onLimit ?? 'throw', lastUsed: new Map() };
+    }
+    this._touch();
+
+    if (config.lockWhenHidden === true && typeof document !== 'undefined') {
+      this._onVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') {
+          this.lock().catch(() => undefined);
+        }
+      };
+      document.addEventListener('visibilitychange', this._onVisibilityChange);
+    }
+  }
+
+  /**
+   * Restarts the idle time after which the storage is locked.
+   */
+  private _touch(): void {
+    if (this._lockAfter === undefined || this._lockAfter <= 0) {
+      return;
+    }
+
+    clearTimeout(this._lockTimer);
+    this._lockTimer = setTimeout(() => {
+      this.lock().catch(() => undefined);
+    }, this._lockAfter);
+  }
+
+  private _stopTimers(): void {
+    clearInterval(this._purgeTimer);
+    clearTimeout(this._lockTimer);
+
+    if (this._onVisibilityChange) {
+      document.removeEventListener('visibilitychange', this._onVisibilityChange);
+      this._onVisibilityChange = undefined;
+    }
+  }
+
+  /**
+   * Whether the storage is locked, see `lock`.
+   */
+  get locked(): boolean {
+    return this._lockedState !== undefined;
+  }
+
+  /**
+   * Discard the keys: until `unlock` is called, reading or writing entries rejects with `StoreLockedError`.
+   * Operations already running keep the keys until they are done. The storage can still be closed or deleted.
+   *
+   * @returns Promise to know when the process is completed.
+   */
+  async lock(): Promise<void> {
+    if (this._lockedState) {
+      return;
+    }
+
+    const [, , salt, iterations, , , device] = await this._properties;
+    clearTimeout(this._lockTimer);
+    this._properties = toRejectedProperties(new StoreLockedError(LOCKED_ERROR_MESSAGE));
+    this._lockedState = { salt, iterations, device };
+    this._listeners.locked.forEach((listener) => callListener(listener));
+  }
+
+  /**
+   * Restore the access to the entries of a locked storage.
+   *
+   * @param key The key of the storage, raw value or a base CryptoKey. Not needed in device mode.
+   * @returns Promise to know when the process is completed.
+   * @throws WrongKeyError if the given key is not the key of the storage.
+   */
+  async unlock(key?: InputDataType | CryptoKey): Promise<void> {
+    if (isMissingKey(key) && this._lockedState?.device !== true) {
+      throw new MissingKeyError(CRYPTO_KEY_ERROR_MESSAGE);
+    }
+
+    if (!this._lockedState) {
+      return;
+    }
+
+    const { salt, iterations } = this._lockedState;
+    const store = await this._store;
+    // the device key is only used when no key is given
+    const device = isMissingKey(key);
+    const baseKey = device ? await this._loadDeviceKey(false) : isCryptoKey(key!) ? key! : await generateCryptoKey({ raw: key! });
+    const keys = await loadDataKeys(store, await deriveKeyEncryptionKey(baseKey, salt, iterations, device));
+
+    this._properties = Promise.resolve([store, baseKey, salt, iterations, ...toKeyProperties(Promise.resolve(keys)), device]);
+    this._lockedState = undefined;
+    this._touch();
+    this._listeners.unlocked.forEach((listener) => callListener(listener));
+  }
+
+  /**
+   * Wait for the storage to be opened and its key checked, without reading any entry.
+   *
+   * @returns Promise resolved once the storage can be used.
+   * @throws WrongKeyError if the key of the storage is wrong, even when the store has no entries.
+   * @throws StoreLockedError if the storage is locked.
+   */
+  async ready(): Promise<void> {
+    const [, , , , dataKey, lookupKey] = await this._properties;
+    await Promise.all([dataKey, lookupKey]);
+  }
+
+  /**
+   * Check whether the given key is the key of the storage, e.g. before `unlock` or `rekey`. The storage is not changed.
+   * Stores created before key verifiers existed are checked against one of their entries, a store without any entry to
+   * check the key against accepts any key.
+   *
+   * @param key The key to check, raw value or a base CryptoKey.
+   * @returns Promise resolved if the key is right.
+   * @throws WrongKeyError if the key is wrong.
+   */
+  async verifyKey(key: InputDataType | CryptoKey): Promise<void> {
+    if (isMissingKey(key)) {
+      throw new MissingKeyError(CRYPTO_KEY_ERROR_MESSAGE);
+    }
+
+    const store = await this._store;
+    const [salt, iterations] = this._lockedState
+      ? [this._lockedState.salt, this._lockedState.iterations]
+      : (await this._properties).slice(2, 4) as [BufferSource, number | undefined];
+    const baseKey = isCryptoKey(key) ? key : await generateCryptoKey({ raw: key });
+
+    await verifyKeyEncryptionKey(store, await deriveKeyEncryptionKey(baseKey, salt, iterations));
+  }
+
+  private async _open({ db = 'default-db', name = 'default-storage-name', backend, indexedDB }: IStorageConfig): Promise<StorageBackend> {
+    const dbHash = await generateHash(db);
+    const storeHash = await generateHash(name);
+
+    const store = await openBackend(backend, dbHash, storeHash, indexedDB);
+    this._dbHash = dbHash;
+    this._storeHash = storeHash;
+    this._indexedDB = indexedDB;
+
+    return store;
+  }
+
+  private async _init({ key, device, salt, iterations, backend }: IStorageConfig, opened: Promise<StorageBackend>): Promise<IConfigProperties> {
+    const store = await opened;
+    const metadata = await migrateStore(store, MIGRATIONS);
+    const deviceMode = device === true;
+    // a device key is only created along with the store
+    const baseKey = deviceMode
+      ? await this._loadDeviceKey(!metadata.kdf && metadata.device !== true)
+      : isCryptoKey(key) ? key : await generateCryptoKey({ raw: key! });
+    // the iterations the store was created or re-keyed with, unless given
+    const kdfIterations = iterations ?? metadata.kdf?.iterations;
+
+    // the records of the other backends are not shared with other tabs
+    if (backend !== 'sessionStorage' && backend !== 'memory') {
+      this._channel = new ChangeChannel(`encrypt-storage:${toBase64(this._dbHash!)}:${toBase64(this._storeHash!)}`, (message) => {
+        this._receive(message).catch(() => undefined);
+      });
+    }
+
+    const saltValue = await getAndStoreSalt(store, salt);
+    const keyEncryptionKey = deriveKeyEncryptionKey(baseKey, saltValue, kdfIterations, deviceMode);
+    const created = await createDataKey(store, keyEncryptionKey, toKeyParams(deviceMode, kdfIterations));
+
+    const keys = keyEncryptionKey.then(async (key) => {
+      const loaded = await loadDataKeys(store, key);
+
+      // the key is authenticated once the store has a verifier, stores with no entry to check the key against have none yet
+      if (created || await store.get(await getVerifierKey()) === undefined) {
+        return loaded;
+      }
+
+      // the stores created before the metadata record get the parameters of the key
+      if (!metadata.kdf && metadata.device !== true) {
+        await saveKdfParams(store, toKdfParams(kdfIterations));
+      }
+
+      // a record that can't be migrated fails when it's read, the others stay readable and the migration is tried again
+      // the next time the store is opened. It also fails when another instance migrates the store meanwhile, the version
+      // is then read again
+      const migrated = await migrateStore(store, MIGRATIONS, FORMAT_VERSION, key).catch(() => migrateStore(store, MIGRATIONS));
+
+      // loaded again once the entries are encrypted under new keys
+      return migrated.version !== metadata.version ? loadDataKeys(store, key) : loaded;
+    });
+
+    return [store, baseKey, saltValue, kdfIterations, ...toKeyProperties(keys), deviceMode];
+  }
+
+  /**
+   * @param create Whether to create the device key if the store has none.
+   * @throws MissingKeyError if the store has no device key on this device.
+   */
+  private async _loadDeviceKey(create: boolean): Promise<CryptoKey> {
+    const deviceKey = await loadDeviceKey(this._dbHash!, this._storeHash!, this._indexedDB, create);
+
+    if (!deviceKey) {
+      throw new MissingKeyError(MISSING_DEVICE_KEY_ERROR_MESSAGE);
+    }
+
+    return deviceKey;
+  }
+
+  /**
+   * Loads all and encrypt the stored data that match the given Key.
+   * The value is restored to the type it was saved with, entries saved as plain strings
+   * by older versions are returned as strings. Expired entries are deleted.
+   *
+   * @param key
+   * @returns Promise of decoded data or undefined if nothing was found or the entry has expired.
+   */
+  async get<T = string>(key: InputDataType): Promise<T | undefined> {
+    const [value] = await this.getMany<T>([key]);
+
+    return value;
+  }
+
+  /**
+   * Loads and decrypt the stored data of all the given keys, the records are read in one transaction.
+   * Expired entries are deleted.
+   *
+   * @param keys
+   * @returns Promise of decoded data in the order of the given keys, undefined for the keys that were not found or have expired.
+   */
+  async getMany<T = string>(keys: InputDataType[]): Promise<(T | undefined)[]> {
+    return this._getMany<T>(keys, readValue);
+  }
+
+  /**
+   * Reads the entries like `getMany`, `read` restores each value from its decrypted data.
+   */
+  private async _getMany<T>(
+    keys: InputDataType[],
+    read: (store: StorageBackend, cryptoKey: CryptoKey, data: BufferSource) => Promise<T>
+  ): Promise<(T | undefined)[]> {
+    this._touch();
+    const [store, , , , dataKey, lookupKey] = await this._properties;
+    const currentLookupKey = await lookupKey;
+    const recordKeys = await Promise.all(keys.map((key) => getRecordKeys(key, currentLookupKey)));
+
+    const records = await store.transaction('readonly', (tx) => {
+      return Promise.all(recordKeys.map(([recordKey, legacyKey, nonceKey]): Promise<StoredRecords> => {
+        return Promise.all([tx.get(recordKey), tx.get(legacyKey), tx.get(nonceKey)]) as Promise<StoredRecords>;
+      }));
+    });
+
+    if (records.every(([record, legacyRecord]) => !record && !legacyRecord)) {
+      return records.map(() => undefined);
+    }
+
+    const cryptoKey = await dataKey;
+    const expired: RecordKeys[] = [];
+    const migrated: [RecordKeys, IEntryRecord][] = [];
+    const values = await Promise.all(records.map(async ([current, legacy, nonceRecord], index): Promise<T | undefined> => {
+      const stored = current ?? legacy;
+
+      if (!stored) {
+        return undefined;
+      }
+
+      const [lookupId, legacyId] = recordKeys[index];
+      // the additional data is bound to the identifier the record was written at
+      const recordKey = current ? lookupId : legacyId;
+      const nonce = getNonce(nonceRecord);
+
+      if (!isEntryRecord(stored) && !nonce) {
+        throw new MissingNonceError(MISSING_NONCE_ERROR_MESSAGE);
+      }
+
+      const record = isEntryRecord(stored) ? stored : toEntryRecord(stored, nonce as BufferSource);
+      const plaintext = await decryptRecord(record, cryptoKey, recordKey, store.name);
+      const { expiresAt, data } = readExpiry(plaintext);
+
+      if (isExpired(expiresAt)) {
+        expired.push(recordKeys[index]);
+
+        return undefined;
+      }
+
+      // entries of an older format, without their original key, or at their SHA-256 identifier are migrated once they are authenticated
+      if (record.version !== ENTRY_RECORD_VERSION || !record.encryptedKey || recordKey !== lookupId) {
+        const chunks = getChunksRef(data, new Map(record.chunks ? [[record.chunks.id, record.chunks.bytes]] : []));
+
+        const subkey = createSubkeyParams(this._subkeys, cryptoKey);
+
+        migrated.push([recordKeys[index], {
+          ...await encryptRecord(plaintext, cryptoKey, lookupId, store.name, 'value', subkey),
+          encryptedKey: await encryptEntryKey(keys[index], cryptoKey, lookupId, store.name, expiresAt, subkey),
+          ...chunks && { chunks }
+        }]);
+      }
+
+      return read(store, cryptoKey, data);
+    }));
+
+    // the least recently used entries are evicted first
+    if (this._limits?.onLimit === 'evict') {
+      recordKeys
+        .filter((_, index) => values[index] !== undefined)
+        .forEach(([lookupId]) => this._limits!.lastUsed.set(toBase64(lookupId), getUseTime()));
+    }
+
+    if (expired.length > 0 || migrated.length > 0) {
+      await writeRecords(
+        store,
+        migrated.map(([[recordKey], record]): [ArrayBuffer, IEntryRecord] => [recordKey, record]),
+        ([] as ArrayBuffer[]).concat(...expired, ...migrated.map(([recordKeys]) => getStaleKeys(recordKeys)))
+      );
+    }
+
+    return values;
+  }
+
+  /**
+   * Check if a not expired entry is stored for the given key.
+   *
+   * @param key
+   * @returns Promise with true if the entry exists.
+   */
+  async has(key: InputDataType): Promise<boolean> {
+    // the value itself is not read, nor the chunks of a Blob
+    const [exists] = await this._getMany([key], () => Promise.resolve(true));
+
+    return exists === true;
+  }
+
+  /**
+   * Count the stored entries that are not expired.
+   *
+   * @returns Promise with the number of entries.
+   */
+  async size(): Promise<number> {
+    const keys = this.keys();
+    let count = 0;
+
+    while ((await keys.next()).done !== true) {
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Iterate over the original keys of the stored entries, expired entries are skipped.
+   * Entries written before the original keys were kept are listed once they are read or saved again.
+   *
+   * @returns An async iterator of the keys.
+   */
+  async *keys<K extends InputDataType = string>(): AsyncIterableIterator<K> {
+    for await (const [key] of this._iterate<K, never>(false)) {
+      yield key;
+    }
+  }
+
+  /**
+   * Iterate over the stored entries as [key, value] pairs, expired entries are skipped.
+   *
+   * @returns An async iterator of the entries.
+   */
+  async *entries<T = string, K extends InputDataType = string>(): AsyncIterableIterator<[K, T]> {
+    yield* this._iterate<K, T>(true);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<[string, unknown]> {
+    return this.entries<unknown>();
+  }
+
+  /**
+   * Walks the records page by page, decrypting the original keys and, if asked, the values.
+   */
+  private async *_iterate<K, T>(withValues: boolean): AsyncIterableIterator<[K, T]> {
+    this._touch();
+    const [store, , , , dataKey] = await this._properties;
+    const cryptoKey = await dataKey;
+    let after: ArrayBuffer | undefined;
 
-  if (existingSalt && (!salt || existingSalt === salt)) {
-    return existingSalt;
+    for (;;) {
+      // every page is read on its own, so decrypting happens between reads
+      const page = await store.iterate(after, ITERATION_PAGE_SIZE, withoutChunks);
+
+      for (const [recordKey, record] of page) {
+        if (!isEntryRecord(record) || !record.encryptedKey) {
+          continue;
+        }
+
+        const entry = await decryptEntry<K, T>(record, cryptoKey, recordKey, store, withValues ? readValue : undefined);
+
+        if (entry) {
+          yield entry;
+        }
+      }
+
+      if (page.length < ITERATION_PAGE_SIZE) {
+        return;
+      }
+
+      [after] = page[page.length - 1];
+    }
   }
 
-  // store salt
-  const saltValue = salt ?? generateSalt();
-  await store.put(name, saltValue, hash);
+  /**
+   * Listen to the events of the storage:
+   * - 'change': the changes of the stored entries made by `set`, `delete` and `clear`, by this instance
+   * or by the other instances and same-origin tabs using the same store.
+   * Only the lookup identifiers of the changed entries are sent to the other tabs, each of them decrypts the new values itself.
+   * - 'locked', 'unlocked': the storage was locked or unlocked, see `lock`.
+   *
+   * @param event 'change', 'locked' or 'unlocked'
+   * @param listener Called with the change, or without arguments.
+   * @returns A function removing the listener.
+   */
+  on<E extends keyof IStorageEvents>(event: E, listener: IStorageEvents[E]): () => void {
+    (this._listeners[event] as Set<IStorageEvents[E]>).add(listener);
 
-  return saltValue;
-}
+    return () => this.off(event, listener);
+  }
 
-const getNonceKey = (key: InputDataType): string => {
-  if (typeof key === 'string') {
-    return `${key}-nonce`
+  /**
+   * Remove a listener added with `on`.
+   */
+  off<E extends keyof IStorageEvents>(event: E, listener: IStorageEvents[E]): void {
+    (this._listeners[event] as Set<IStorageEvents[E]>).delete(listener);
   }
 
-  return 'nonce'
-};
+  /**
+   * Listen to the changes of the entry of the given key, including the ones made by other tabs, see `on`.
+   *
+   * @param key
+   * @param callback Called with the new value, undefined once the entry is deleted or cleared, and the change.
+   * @returns A function stopping to watch the key.
+   */
+  watch<T = string>(key: InputDataType, callback: (value: T | undefined, change: IStorageChange<T>) => void): () => void {
+    let watchedId: Promise<string> | undefined;
+    // changes are matched through the same promise, so they are reported in order
+    const getWatchedId = (): Promise<string> => {
+      if (!watchedId) {
+        watchedId = this._properties.then(async ([, , , , , lookupKey]) => toBase64(await getLookupId(key, await lookupKey)));
+        // computed again on the next change if the storage is locked
+        watchedId.catch(() => {
+          watchedId = undefined;
+        });
+      }
 
-export class EncryptStorage {
-  private _properties: Promise<IConfigProperties>;
+      return watchedId;
+    };
+
+    const watcher: ChangeHandler = (change, id) => {
+      getWatchedId().then((watched) => {
+        if (change.type === 'clear' || id === watched) {
+          callback(change.value as T | undefined, { ...change, key } as IStorageChange<T>);
+        }
+      }).catch(() => undefined);
+    };
+    this._watchers.add(watcher);
+
+    return () => {
+      this._watchers.delete(watcher);
+    };
+  }
+
+  /**
+   * Reports the changes made by this instance to its listeners and to the other tabs.
+   */
+  private _notify(type: ChangeType, changes: [id: ArrayBuffer, key: InputDataType, value?: unknown][] = []): void {
+    const ids = changes.map(([id]) => toBase64(id));
+
+    this._channel?.post({ type, ids });
+
+    if (type === 'clear') {
+      this._dispatch({ type, remote: false });
+    }
+
+    changes.forEach(([, key, value], index) => {
+      this._dispatch(type === 'set' ? { type, key, value, remote: false } : { type, key, remote: false }, ids[index]);
+    });
+  }
+
+  /**
+   * Reports the changes made by another instance, the new values are read from the store, except Blobs saved in chunks.
+   */
+  private async _receive({ type, ids }: IChangeMessage): Promise<void> {
+    if (type === 'clear') {
+      this._dispatch({ type, remote: true });
+
+      return;
+    }
+
+    const [store, , , , dataKey] = await this._properties;
+    const cryptoKey = await dataKey;
+
+    for (const id of ids) {
+      if (type === 'delete') {
+        this._dispatch({ type, remote: true }, id);
+        continue;
+      }
+
+      const recordKey = fromBase64(id).buffer;
+      const record = await store.get(recordKey);
+      const entry = isEntryRecord(record) && record.encryptedKey
+        ? await decryptEntry<InputDataType, unknown>(record, cryptoKey, recordKey, store, readChangeValue)
+        : undefined;
+
+      // entries deleted or expired meanwhile are reported by their own change
+      if (entry) {
+        const [key, value] = entry;
+        this._dispatch({ type, key, value, remote: true }, id);
+      }
+    }
+  }
+
+  private _dispatch(change: IStorageChange, id?: string): void {
+    this._listeners.change.forEach((listener) => callListener(() => listener(change)));
+    this._watchers.forEach((watcher) => callListener(() => watcher(change, id)));
+  }
+
+  /**
+   * @returns Promise with the database, only for stores kept in IndexedDB.
+   */
+  async getDB(): Promise<IDBPDatabase<any>> {
+    const store = await this._store;
+
+    if (!(store instanceof IndexedDBBackend)) {
+      throw new UnsupportedEnvironmentError(NOT_INDEXEDDB_ERROR_MESSAGE);
+    }
+
+    return store.db;
+  }
+
+  async getStoreName(): Promise<string> {
+    const store = await this._store;
+
+    return store.name;
+  }
 
   /**
+   * List the stores of the database, e.g. the other storages opened with the same `db`.
+   * The names are the ones returned by `getStoreName`, the configured names can't be recovered from them.
    *
-   * @param config IStorageConfig
-   * @param config.baseKey A cryptoKey
-   * @param config.db database name used to store data. Default: <default-db>
-   * @param config.name A name of store Default: <default-name>
-   * @param salt A salt used to encrypt the stored data
-   * @param iterations iteration cycles to encrypt the stored data
+   * @returns Promise with the names of the stores.
    */
-  constructor(config: IStorageConfig) {
-    if (!config.key) {
-      throw new Error(CRYPTO_KEY_ERROR_MESSAGE);
+  async listStores(): Promise<string[]> {
+    const store = await this._store;
+
+    return store.listStores();
+  }
+
+  /**
+   * Delete a store of the database with all its entries, nothing happens if it doesn't exist.
+   * Dropping the store of this storage closes it, as `deleteDB` does.
+   *
+   * @param name The configured name of the store.
+   * @returns Promise to know when the process is completed.
+   * @throws StoreBlockedError if another connection to the IndexedDB database doesn't close to let the store be deleted.
+   */
+  async dropStore(name: string): Promise<void> {
+    const store = await this._store;
+    const storeName = getBackendStoreName(store, this._dbHash!, await generateHash(name));
+
+    if (storeName !== store.name) {
+      await store.dropStore(storeName);
+      await deleteDeviceKeys(this._dbHash!, await generateHash(name), this._indexedDB);
+
+      return;
     }
 
-    this._properties = this._init(config);
+    this._stopTimers();
+    this._lockedState = undefined;
+    this._properties = toRejectedProperties(new StoreClosedError(CLOSED_ERROR_MESSAGE));
+    await store.dropStore(storeName);
+    await store.close();
+    await deleteDeviceKeys(this._dbHash!, this._storeHash, this._indexedDB);
+
+    this._notify('clear');
+    this._channel?.close();
+    this._channel = undefined;
   }
 
-  private async _init({
-    key,
-    db = 'default-db',
-    name = 'default-storage-name',
-    salt,
-    iterations
-  }: IStorageConfig): Promise<IConfigProperties> {
-    const dbHash = await generateHash(db);
-    const storeHash = await generateHash(name);
-    const baseKey = key instanceof CryptoKey ? key : await generateCryptoKey({ raw: key });
+  /**
+   * Writes the records like `writeRecords`, within the limits of the store if it has any, see `fitLimits`.
+   *
+   * @returns Promise with the [lookup identifier, key] of the entries evicted to make room.
+   */
+  private async _writeWithinLimits(
+    store: StorageBackend,
+    cryptoKey: CryptoKey,
+    puts: [ArrayBuffer, unknown][],
+    deletes: ArrayBuffer[]
+  ): Promise<[ArrayBuffer, InputDataType][]> {
+    if (!this._limits) {
+      await writeRecords(store, puts, deletes);
+
+      return [];
+    }
+
+    const [fittedPuts, fittedDeletes, evicted] = await fitLimits(store, cryptoKey, puts, deletes, this._limits);
+    // expired entries and entries without their original key are not reported
+    const entries = await Promise.all(evicted.map(([recordKey, record]) => record.encryptedKey
+      ? decryptEntry<InputDataType, never>(record, cryptoKey, recordKey, store)
+      : undefined));
 
-    const decodedStorageName = decode(storeHash);
+    await writeRecords(store, fittedPuts, fittedDeletes);
 
-    const store = openDB(decode(dbHash), 1, {
-      upgrade(db) {
-        db.createObjectStore(decodedStorageName);
-      },
+    return evicted
+      .map(([recordKey], index): [ArrayBuffer, InputDataType] | undefined => entries[index] && [recordKey, entries[index]![0]])
+      .filter((entry): entry is [ArrayBuffer, InputDataType] => !!entry);
+  }
+
+  /**
+   * Measure the store: its entries and the size of its encrypted records, along with what the whole origin takes
+   * where `navigator.storage` is available. Works while the storage is locked.
+   *
+   * @returns Promise with the usage.
+   */
+  async usage(): Promise<IStorageUsage> {
+    const store = await this._store;
+    const metaKeys = await getMetaKeys();
+    // the chunks are counted from the entries pointing to them
+    const records = await store.iterate(undefined, undefined, withoutChunks);
+    const entries = records.filter(([recordKey, record]) => {
+      return !metaKeys.some((metaKey) => isSameBytes(recordKey, metaKey)) && isEntryValue(record);
     });
+    const usage: IStorageUsage = {
+      entries: entries.length,
+      bytes: records.reduce((size, [, record]) => size + getStoredSize(record), 0)
+    };
 
-    return Promise.all([
-      store,
-      decodedStorageName,
-      baseKey,
-      getAndStoreSalt(store, decodedStorageName, salt),
-      iterations
+    if (typeof navigator === 'undefined' || typeof navigator.storage?.estimate !== 'function') {
+      return usage;
+    }
+
+    const [{ usage: originUsage = 0, quota = 0 }, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted?.() ?? false
     ]);
+
+    return { ...usage, origin: { usage: originUsage, quota, persisted } };
   }
 
   /**
-   * Loads all and encrypt the stored data that match the given Key.
+   * Ask the browser to keep the data of the origin under storage pressure, see `navigator.storage.persist`.
    *
-   * @param key
-   * @returns Promise of decoded data or undefined if nothing was found.
+   * @returns Promise with whether the data is persisted, false where `navigator.storage` is not available.
    */
-  async get(key: InputDataType): Promise<string | undefined> {
-    const [store, name, baseKey, salt, iterations] = await this._properties;
-    const hashKey = await generateHash(key);
-    const hashNonce = await generateHash(getNonceKey(key));
+  async persist(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || typeof navigator.storage?.persist !== 'function') {
+      return false;
+    }
 
-    const encrypted = await store.get(name, hashKey);
+    return navigator.storage.persist();
+  }
 
-    if (!encrypted) {
-      return undefined;
+  /**
+   * Encrypt and save the given data and key.
+   * Supported values: strings, numbers, booleans, `null`, plain objects, arrays, `Date`, `Map`, `Set`,
+   * `ArrayBuffer`, typed arrays and `Blob`. The type is encrypted along with the value.
+   *
+   * @param key The key to be encrypted and indexed to find.
+   * @param value The value to be encrypted and stored.
+   * @param options
+   * @param options.ttl <optional> Time to live of the entry in milliseconds.
+   * @param options.expiresAt <optional> Expiry time of the entry, takes precedence over `ttl`.
+   * @returns Promise to know when the procession is completed.
+   */
+  async set<T = InputDataType>(key: InputDataType, value: T, options: ISetOptions = {}): Promise<void> {
+    await this.setMany([[key, value, options]]);
+  }
+
+  /**
+   * Encrypt and save all the given entries in one transaction, either all of them are saved or none.
+   *
+   * @param entries List of `[key, value, options?]`, see `set`.
+   * @returns Promise to know when the procession is completed.
+   */
+  async setMany<T = InputDataType>(entries: StorageEntry<T>[]): Promise<void> {
+    this._touch();
+    const [store, , , , dataKey, lookupKey] = await this._properties;
+    const cryptoKey = await dataKey;
+    const currentLookupKey = await lookupKey;
+
+    const records = await Promise.all(entries.map(async ([key, value, options = {}]): Promise<[RecordKeys, IEntryRecord]> => {
+      const expiresAt = getExpiresAt(options);
+      const serialized = this._compression !== undefined ? await compress(await serialize(value), this._compression) : await serialize(value);
+      const data = expiresAt !== undefined ? addExpiry(serialized, expiresAt) : serialized;
+
+      const recordKeys = await getRecordKeys(key, currentLookupKey);
+      const [recordKey] = recordKeys;
+      const subkey = createSubkeyParams(this._subkeys, cryptoKey);
+      const record = await encryptRecord(data, cryptoKey, recordKey, store.name, 'value', subkey);
+
+      return [recordKeys, { ...record, encryptedKey: await encryptEntryKey(key, cryptoKey, recordKey, store.name, expiresAt, subkey) }];
+    }));
+
+    // an entry overwritten by its single record no longer needs the records of older formats
+    const evicted = await this._writeWithinLimits(
+      store,
+      cryptoKey,
+      records.map(([[recordKey], record]): [ArrayBuffer, IEntryRecord] => [recordKey, record]),
+      ([] as ArrayBuffer[]).concat(...records.map(([recordKeys]) => getStaleKeys(recordKeys)))
+    );
+
+    if (evicted.length > 0) {
+      this._notify('delete', evicted);
+    }
+
+    this._notify('set', records.map(([[recordKey]], index) => [recordKey, entries[index][0], entries[index][1]]));
+  }
+
+  /**
+   * Encrypt and save a Blob or File in chunks, each chunk read, encrypted and written on its own,
+   * so the whole Blob is never held in memory. The entry only points to the chunks once they are all written.
+   * `get` reads it back whole, `getStream` chunk by chunk.
+   *
+   * @param key The key to be encrypted and indexed to find.
+   * @param blob The Blob to be encrypted and stored.
+   * @param options
+   * @param options.chunkSize <optional> Size in bytes of the chunks. Default: 1 MiB.
+   * @param options.ttl <optional> Time to live of the entry in milliseconds.
+   * @param options.expiresAt <optional> Expiry time of the entry, takes precedence over `ttl`.
+   * @returns Promise to know when the procession is completed.
+   * @throws RangeError if the chunk size is not a positive integer.
+   */
+  async setBlob(key: InputDataType, blob: Blob, { chunkSize = DEFAULT_CHUNK_SIZE, ...options }: ISetBlobOptions = {}): Promise<void> {
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new RangeError(CHUNK_SIZE_ERROR_MESSAGE);
     }
 
-    const cryptoKey = await deriveKey({ key: baseKey, saltOrDeriveAlgorithm: salt, iterationsOrAlgorithmParam: iterations });
-    const nonce = await store.get(name, hashNonce);
+    this._touch();
+    const [store, , , , dataKey, lookupKey] = await this._properties;
+    const cryptoKey = await dataKey;
+    const recordKeys = await getRecordKeys(key, await lookupKey);
+    const [recordKey] = recordKeys;
+    const id = toBase64(generateRandomValues(16));
+    const total = Math.max(1, Math.ceil(blob.size / chunkSize));
+    let bytes = 0;
+    let evicted: [ArrayBuffer, InputDataType][];
+
+    // not worth writing the chunks
+    if (blob.size > (this._limits?.maxBytes ?? Infinity)) {
+      throw new QuotaExceededError(LIMIT_EXCEEDED_ERROR_MESSAGE);
+    }
 
     try {
-      const value = await decrypt({ data: encrypted, key: cryptoKey, nonceOrAlgorithm: nonce });
+      for (let index = 0; index < total; index++) {
+        const data = await blob.slice(index * chunkSize, (index + 1) * chunkSize).arrayBuffer();
+        const chunk = await encryptChunk(data, cryptoKey, store.name, id, index, total, createSubkeyParams(this._subkeys, cryptoKey));
+        await writeRecords(store, [[getChunkKey(id, index), chunk]]);
+        bytes += getRecordSize(chunk);
+      }
 
-      return decode(value);
+      const expiresAt = getExpiresAt(options);
+      const manifest = serializeChunkManifest({ id, type: blob.type, size: blob.size, chunkSize, total });
+      const subkey = createSubkeyParams(this._subkeys, cryptoKey);
+      const record = await encryptRecord(
+        expiresAt !== undefined ? addExpiry(manifest, expiresAt) : manifest,
+        cryptoKey,
+        recordKey,
+        store.name,
+        'value',
+        subkey
+      );
+
+      evicted = await this._writeWithinLimits(
+        store,
+        cryptoKey,
+        [[recordKey, { ...record, encryptedKey: await encryptEntryKey(key, cryptoKey, recordKey, store.name, expiresAt, subkey), chunks: { id, total, bytes } }]],
+        getStaleKeys(recordKeys)
+      );
     } catch (e) {
-      throw new Error(AUTHENTICITY_ERROR_MESSAGE);
+      // the chunks written so far are not pointed to by any entry
+      await writeRecords(store, [], Array.from({ length: total }, (_, index) => getChunkKey(id, index))).catch(() => undefined);
+
+      throw e;
+    }
+
+    if (evicted.length > 0) {
+      this._notify('delete', evicted);
     }
+
+    this._notify('set', [[recordKey, key, blob]]);
   }
 
-  async getDB(): Promise<IDBPDatabase<any>> {
-    const [db] = await this._properties;
+  /**
+   * Load and decrypt an entry as a Blob: a Blob saved with `setBlob` or `set`, or a binary value.
+   *
+   * @param key
+   * @returns Promise with the Blob, undefined if the entry was not found or has expired.
+   * @throws TypeError if the entry is not binary.
+   */
+  async getBlob(key: InputDataType): Promise<Blob | undefined> {
+    const [blob] = await this._getMany([key], async (store, cryptoKey, data) => toBlob(await readValue(store, cryptoKey, data)));
 
-    return db;
+    return blob;
   }
 
-  async getStoreName(): Promise<string> {
-    const [,store] = await this._properties;
+  /**
+   * Load and decrypt an entry as a stream. The chunks of a Blob saved with `setBlob` are read and decrypted as the stream is consumed,
+   * the stream errors with `TamperedRecordError` if a chunk is missing or was modified.
+   *
+   * @param key
+   * @returns Promise with the stream, undefined if the entry was not found or has expired.
+   * @throws TypeError if the entry is not binary.
+   */
+  async getStream(key: InputDataType): Promise<ReadableStream<Uint8Array> | undefined> {
+    const [stream] = await this._getMany([key], async (store, cryptoKey, data) => {
+      const manifest = readChunkManifest(data);
 
-    return store;
+      return manifest ? streamChunks(store, cryptoKey, manifest) : toBlob(await readValue(store, cryptoKey, data)).stream();
+    });
+
+    return stream;
   }
 
   /**
-   * Encrypt and save the given data and key.
-   * @param key The key to be encrypted and indexed to find.
-   * @param value The value to be encrypted and stored.
-   * @returns Promise to know when the procession is completed.
+   * Change the key protecting the stored entries.
+   * Only the data encryption and lookup keys are re-wrapped under the new key, stores created before data encryption keys existed
+   * get them and all their entries are re-encrypted under the data key, moving the ones with their original key to their lookup identifier. Everything is prepared before anything is written, then saved
+   * in one transaction, so if it fails or is interrupted the store is still readable with the current key.
+   *
+   * @param newKey The new key, raw value or a base CryptoKey.
+   * @param options
+   * @param options.salt <optional> The new salt. Default: a newly generated salt.
+   * @param options.iterations <optional> The new iteration cycles. Default: the current iterations.
+   * @param options.onProgress <optional> Called after each entry is re-encrypted.
+   * @returns Promise to know when the process is completed.
+   */
+  async rekey(newKey: InputDataType | CryptoKey, options: IRekeyOptions = {}): Promise<void> {
+    if (isMissingKey(newKey)) {
+      throw new MissingKeyError(CRYPTO_KEY_ERROR_MESSAGE);
+    }
+
+    await this._rekey(newKey, options, false);
+  }
+
+  /**
+   * @param device Whether the new key is a device key.
+   */
+  private async _rekey(newKey: InputDataType | CryptoKey, { salt, iterations, onProgress }: IRekeyOptions, device: boolean): Promise<void> {
+    const previous = this._properties;
+    let leftDevice = false;
+    const next = previous.then(async (
+      [store, baseKey, currentSalt, currentIterations, currentDataKey, currentLookupKey, currentDevice]
+    ): Promise<IConfigProperties> => {
+      const newBaseKey = isCryptoKey(newKey) ? newKey : await generateCryptoKey({ raw: newKey });
+      leftDevice = currentDevice && !device;
+      const newSalt = salt ?? generateSalt();
+      const newIterations = iterations ?? currentIterations;
+
+      const [saltKey, dataKeyRecordKey, verifierKey, metadataKey] = await getMetaKeys();
+      const hasDataKey = await store.get(dataKeyRecordKey) !== undefined;
+      // stores with a data encryption key always get a lookup key when it is loaded
+      const keys = (hasDataKey
+        ? await loadDataKeys(store, await deriveKeyEncryptionKey(baseKey, currentSalt, currentIterations, currentDevice), true)
+        : { dataKey: await generateDataKey(), lookupKey: await generateLookupKey() }) as Required<IDataKeys>;
+      const newKeyEncryptionKey = await deriveKeyEncryptionKey(newBaseKey, newSalt, newIterations, device);
+      const records: [ArrayBuffer, unknown][] = [
+        [saltKey, newSalt],
+        [dataKeyRecordKey, await wrapDataKey(keys, newKeyEncryptionKey)],
+        [verifierKey, await createVerifier(newKeyEncryptionKey)],
+        [metadataKey, withKeyParams(await store.get(metadataKey) as IStoreMetadata | undefined ?? { version: FORMAT_VERSION }, toKeyParams(device, newIterations))]
+      ];
+      const deletes: ArrayBuffer[] = [];
+
+      // stores whose key couldn't be authenticated yet are not migrated, see `DATA_KEY_MIGRATION`
+      if (!hasDataKey) {
+        const [puts, replaced] = await reencryptLegacyEntries(store, await currentDataKey, keys, onProgress);
+
+        records.push(...puts);
+        deletes.push(...replaced);
+      }
+
+      await writeRecords(store, records, deletes);
+
+      // the cached keys stay valid when only re-wrapped, new keys are loaded non-extractable
+      const keyProperties: [Promise<CryptoKey>, Promise<CryptoKey | undefined>] = hasDataKey
+        ? [currentDataKey, currentLookupKey]
+        : toKeyProperties(Promise.resolve(await loadDataKeys(store, newKeyEncryptionKey)));
+
+      return [store, newBaseKey, newSalt, newIterations, ...keyProperties, device];
+    });
+
+    // keep the current key when re-keying fails
+    this._properties = next.catch(() => previous);
+
+    await next;
+
+    // the device key no longer opens the store
+    if (leftDevice) {
+      await deleteDeviceKeys(this._dbHash!, this._storeHash, this._indexedDB);
+    }
+  }
+
+  /**
+   * Switch to device mode: the store is protected by a random key kept in IndexedDB on this device, so it opens with
+   * `{ device: true }` without a passphrase. The key can't be exported, a copy of the records is unreadable elsewhere.
+   * Only the data encryption and lookup keys are re-wrapped, see `rekey`.
+   *
+   * @returns Promise to know when the process is completed.
+   * @throws UnsupportedEnvironmentError if there's no IndexedDB to keep the device key.
+   */
+  async rememberDevice(): Promise<void> {
+    const [, , , , , , device] = await this._properties;
+
+    if (device) {
+      return;
+    }
+
+    // kept before the store depends on it
+    const deviceKey = await generateDeviceKey();
+    await saveDeviceKey(this._dbHash!, this._storeHash!, deviceKey, this._indexedDB);
+
+    try {
+      await this._rekey(deviceKey, {}, true);
+    } catch (e) {
+      await deleteDeviceKeys(this._dbHash!, this._storeHash, this._indexedDB).catch(() => undefined);
+
+      throw e;
+    }
+  }
+
+  /**
+   * Switch back from device mode to a passphrase, the device key is destroyed. Same as `rekey`.
+   *
+   * @param newKey The new key, raw value or a base CryptoKey.
+   * @param options See `rekey`.
+   * @returns Promise to know when the process is completed.
+   */
+  forgetDevice(newKey: InputDataType | CryptoKey, options?: IRekeyOptions): Promise<void> {
+    return this.rekey(newKey, options);
+  }
+
+  /**
+   * Export the store as a portable JSON file: the key derivation parameters and every encrypted record,
+   * including the wrapped data encryption key. Nothing is decrypted, the backup can only be imported with the key of the store.
+   *
+   * @returns Promise with the backup file.
+   * @throws KeyNotExportableError in device mode, the device key can't leave this device.
+   */
+  async exportBackup(): Promise<Blob> {
+    const [store, , salt, iterations, , , device] = await this._properties;
+
+    if (device) {
+      throw new KeyNotExportableError(DEVICE_BACKUP_ERROR_MESSAGE);
+    }
+
+    const saltKey = await getSaltKey();
+    const records = (await store.iterate()).filter(([recordKey]) => !isSameBytes(recordKey, saltKey));
+
+    const bundle: IBackupBundle = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      kdf: { ...toKdfParams(iterations), salt },
+      store: store.name,
+      records
+    };
+
+    return new Blob([stringifyRecord(bundle)], { type: 'application/json' });
+  }
+
+  /**
+   * Restore a backup made by `exportBackup` into the given db/name.
+   * Every entry is authenticated and decrypted with the key of the backup, then encrypted again in the target store,
+   * which is created with that key if it doesn't exist. Expired entries are skipped.
+   *
+   * @param file The backup file or its content.
+   * @param key The key of the backed up store, raw value or a base CryptoKey.
+   * @param options The target store config, see `IStorageConfig`.
+   * @param options.mode <optional> 'merge' keeps the entries of the target store that are not in the backup, 'replace' deletes them. Default: 'merge'.
+   * @returns Promise with the target store.
+   * @throws UnsupportedFormatError if the file can't be imported: INVALID_BACKUP_ERROR_MESSAGE, UNSUPPORTED_BACKUP_VERSION_ERROR_MESSAGE.
+   * @throws WrongKeyError if the key is wrong, or is not the key of an existing target store, which is closed.
+   * @throws TamperedRecordError if a record was tampered with.
    */
-  async set(key: InputDataType, value: InputDataType): Promise<void> {
-    const [store, name, baseKey, salt, iterations] = await this._properties;
-    const hashKey = await generateHash(key);
-    const hashNonce = await generateHash(getNonceKey(key));
+  static async importBackup(
+    file: Blob | string,
+    key: InputDataType | CryptoKey,
+    { mode = 'merge', ...config }: IImportBackupOptions = {}
+  ): Promise<EncryptStorage> {
+    if (isMissingKey(key)) {
+      throw new MissingKeyError(CRYPTO_KEY_ERROR_MESSAGE);
+    }
+
+    const bundle = parseBackup(typeof file === 'string' ? file : await file.text());
+    const baseKey = isCryptoKey(key) ? key : await generateCryptoKey({ raw: key });
+
+    // the records are decrypted where they are readable: a store of the same name
+    const source = new MemoryBackend(`backup:${toBase64(generateRandomValues(16))}`, bundle.store);
+
+    try {
+      await writeRecords(source, bundle.records);
+      await migrateStore(source, MIGRATIONS);
+      const { dataKey } = await loadDataKeys(source, await deriveKeyEncryptionKey(baseKey, bundle.kdf.salt, bundle.kdf.iterations));
+      const entries = await decryptAllEntries(source, dataKey);
+
+      const target = new EncryptStorage({ ...config, key });
+
+      try {
+        await target._restore(
+          entries.filter(({ plaintext }) => !isExpired(readExpiry(plaintext).expiresAt)),
+          mode,
+          (targetKey, storeName, subkeys) => reencryptChunks(source, dataKey, targetKey, storeName, subkeys)
+        );
+      } catch (e) {
+        await target.close().catch(() => undefined);
+
+        throw e;
+      }
+
+      return target;
+    } finally {
+      await source.destroy();
+    }
+  }
+
+  /**
+   * Writes the decrypted entries of a backup, and its Blob chunks encrypted again for this store, in one transaction.
+   */
+  private async _restore(
+    entries: IDecryptedEntry[],
+    mode: ImportMode,
+    getChunks: (dataKey: CryptoKey, storeName: string, subkeys?: SubkeyOption) => Promise<[ArrayBuffer, IChunkRecord][]>
+  ): Promise<void> {
+    const [store, , , , dataKey, lookupKey] = await this._properties;
+    const cryptoKey = await dataKey;
+    const currentLookupKey = await lookupKey;
+    const metaKeys = await getMetaKeys();
+
+    const deletes = mode === 'replace'
+      ? (await store.iterate(undefined, undefined, withoutChunks))
+        .map(([recordKey]) => recordKey)
+        .filter((recordKey) => !metaKeys.some((metaKey) => isSameBytes(recordKey, metaKey)))
+      : [];
+    const chunks = await getChunks(cryptoKey, store.name, this._subkeys);
+    const chunkBytes = getChunkBytes(chunks);
+    const puts: [ArrayBuffer, unknown][] = [...chunks];
+    const restored: [ArrayBuffer, InputDataType, ArrayBuffer][] = [];
+
+    for (const entry of entries) {
+      const [recordKey, record] = await reencryptEntry(entry, cryptoKey, currentLookupKey, store.name, chunkBytes, this._subkeys);
+      puts.push([recordKey, record]);
 
-    const cryptoKey = await deriveKey({ key: baseKey, saltOrDeriveAlgorithm: salt, iterationsOrAlgorithmParam: iterations });
-    const [encrypted, nonce] = await encrypt({ data: value, key: cryptoKey });
+      if (entry.keyPlaintext) {
+        const key = deserialize<InputDataType>(readExpiry(entry.keyPlaintext).data);
+        // the records of older formats of the same entry are replaced
+        deletes.push(...getStaleKeys(await getRecordKeys(key, currentLookupKey)));
+        restored.push([recordKey, key, entry.plaintext]);
+      }
+    }
+
+    const evicted = await this._writeWithinLimits(store, cryptoKey, puts, deletes);
+
+    // Blobs saved in chunks are not read back for the notifications
+    const changes = await Promise.all(restored.map(async ([recordKey, key, plaintext]): Promise<[ArrayBuffer, InputDataType, unknown]> => {
+      return [recordKey, key, await readChangeValue(store, cryptoKey, readExpiry(plaintext).data)];
+    }));
+
+    if (mode === 'replace') {
+      this._notify('clear');
+    }
+
+    if (evicted.length > 0) {
+      this._notify('delete', evicted);
+    }
 
-    await store.put(name, encrypted, hashKey);
-    await store.put(name, nonce, hashNonce);
+    this._notify('set', changes);
   }
 
   /**
@@ -147,20 +2345,39 @@ export class EncryptStorage {
    * @returns Promise to know when the process is completed.
    * */
   async clear(): Promise<void> {
-    const [store, name, _, salt] = await this._properties;
-    await store.clear(name);
-    await getAndStoreSalt(store, name, salt);
+    this._touch();
+    const [store] = await this._properties;
+    const metaKeys = await getMetaKeys();
+
+    // the salt, the wrapped keys and the key verifier are kept, in one transaction so none is lost if it fails
+    await store.transaction('readwrite', async (tx) => {
+      const metaRecords = await Promise.all(metaKeys.map((key) => tx.get(key)));
+      await tx.clear();
+
+      await Promise.all(metaKeys
+        .map((key, index): [ArrayBuffer, unknown] => [key, metaRecords[index]])
+        .filter(([, record]) => record !== undefined)
+        .map(([key, record]) => tx.put(key, record)));
+    });
+
+    this._notify('clear');
   }
 
   /**
   * close database connection.
+  * Reading or writing entries afterwards rejects with `StoreClosedError`, the storage can still be deleted.
   *
   * @returns Promise to know when the process is completed.
   * */
   async close(): Promise<void> {
-    const [store] = await this._properties;
+    const store = await this._store;
 
-    store.close();
+    this._stopTimers();
+    this._channel?.close();
+    this._channel = undefined;
+    this._lockedState = undefined;
+    this._properties = toRejectedProperties(new StoreClosedError(CLOSED_ERROR_MESSAGE));
+    await store.close();
   }
 
   /**
@@ -170,23 +2387,69 @@ export class EncryptStorage {
  * @returns Promise to know when the process is completed.
  * */
   async delete(key: InputDataType): Promise<void> {
-    const [store, name] = await this._properties;
-    const hashKey = await generateHash(key);
-    const hashNonce = await generateHash(getNonceKey(key));
+    await this.deleteMany([key]);
+  }
+
+  /**
+   * Delete the stored data of all the given keys in one transaction.
+   *
+   * @params keys The keys to find.
+   * @returns Promise to know when the process is completed.
+   * */
+  async deleteMany(keys: InputDataType[]): Promise<void> {
+    this._touch();
+    const [store, , , , , lookupKey] = await this._properties;
+    const currentLookupKey = await lookupKey;
+    const recordKeys = await Promise.all(keys.map((key) => getRecordKeys(key, currentLookupKey)));
+
+    await deleteRecords(store, recordKeys);
+
+    this._notify('delete', recordKeys.map(([recordKey], index) => [recordKey, keys[index]]));
+  }
+
+  /**
+   * Delete all the expired entries, the entries that can't be decrypted are left as they are and reported.
+   * Runs on an interval when `purgeInterval` is configured.
+   *
+   * @returns Promise with the number of deleted entries and the identifiers of the entries that failed.
+   */
+  async purgeExpired(): Promise<IPurgeResult> {
+    const [store, , , , dataKey] = await this._properties;
+    const failed: ArrayBuffer[] = [];
+    const entries = await decryptAllEntries(store, await dataKey, failed);
+    const expired = entries.filter(({ plaintext }) => isExpired(readExpiry(plaintext).expiresAt));
+
+    await writeRecords(store, [], ([] as ArrayBuffer[]).concat(...expired.map(({ dataKey, nonceKey }) => nonceKey ? [dataKey, nonceKey] : [dataKey])));
+
+    // entries without their original key are not reported
+    this._notify('delete', expired
+      .filter(({ keyPlaintext }) => keyPlaintext !== undefined)
+      .map(({ dataKey, keyPlaintext }): [ArrayBuffer, InputDataType] => [dataKey, deserialize<InputDataType>(readExpiry(keyPlaintext!).data)]));
 
-    await store.delete(name, hashKey);
-    await store.delete(name, hashNonce);
+    return { deleted: expired.length, failed: failed.map(toBase64) };
   }
 
   /**
    * Delete whole store & db structure
    *
    * @returns Promise to know when the process is completed.
+   * @throws StoreBlockedError if another connection to the IndexedDB database doesn't close, it's deleted once it does.
    */
   async deleteDB(): Promise<void> {
-    const [store] = await this._properties;
+    const store = await this._store;
+
+    this._stopTimers();
+    this._lockedState = undefined;
+    this._properties = toRejectedProperties(new StoreClosedError(CLOSED_ERROR_MESSAGE));
+    try {
+      await store.destroy();
+    } finally {
+      // also when the deletion is blocked, the database goes once it's unblocked
+      await deleteDeviceKeys(this._dbHash!, undefined, this._indexedDB);
+    }
 
-    store.close();
-    await deleteDB(store.name);
+    this._notify('clear');
+    this._channel?.close();
+    this._channel = undefined;
   }
 }
@@ -1,17 +1,284 @@
-import { IDBPDatabase } from "idb";
+import { BackendType, StorageBackend } from "../backend/backend.type";
 
 export type InputDataType = BufferSource | string;
 
 export interface IStorageConfig {
-  key: InputDataType | CryptoKey;
+  // required unless `device`.
+  key?: InputDataType | CryptoKey;
+  // protects the store with a random key kept on this device instead of `key`, see `EncryptStorage.rememberDevice`.
+  device?: boolean;
   // data base name used to store data
   db?: string;
   name?: string;
   // salt used to encrypt the stored data.
   salt?: BufferSource;
-  // iteration cycles to encrypt the stored data.
+  // iteration cycles to encrypt the stored data. Default: the ones the store was created or re-keyed with.
   iterations?: number;
   log?: boolean;
+  // interval in milliseconds to delete the expired entries, disabled by default.
+  purgeInterval?: number;
+  // where the encrypted records are kept, a built-in backend or a custom one. Default: 'indexedDB'.
+  backend?: BackendType | StorageBackend;
+  // IndexedDB implementation used by the 'indexedDB' backend, e.g. in Node. Default: the global `indexedDB`.
+  indexedDB?: IDBFactory;
+  // locks the storage after this many milliseconds without reading or writing entries, disabled by default.
+  lockAfter?: number;
+  // locks the storage when the page is hidden, disabled by default.
+  lockWhenHidden?: boolean;
+  // compresses the values before encrypting them, when it makes them smaller. Disabled by default.
+  compression?: CompressionOption;
+  // maximum encrypted size in bytes of the store, unlimited by default.
+  maxBytes?: number;
+  // maximum number of entries of the store, unlimited by default.
+  maxEntries?: number;
+  // what a write going over `maxBytes` or `maxEntries` does. Default: 'throw'.
+  onLimit?: LimitPolicy;
+  // encrypts each entry under its own key derived with HKDF, disabled by default.
+  subkeys?: SubkeyOption;
 }
 
-export type IConfigProperties = [IDBPDatabase<any>, string, CryptoKey, BufferSource, number | undefined];
+/**
+ * `'auto'` compresses where `CompressionStream` is available and stores the values as they are elsewhere.
+ */
+export type CompressionOption = 'gzip' | 'deflate' | 'auto';
+
+/**
+ * `'lookup'` derives the key of an entry from its lookup identifier, `'salted'` also from a random salt kept in its record,
+ * so every write of the entry gets a new key.
+ */
+export type SubkeyOption = 'lookup' | 'salted';
+
+/**
+ * 'throw' rejects the write with a `QuotaExceededError`, 'evict' deletes the least recently used entries to make room.
+ */
+export type LimitPolicy = 'throw' | 'evict';
+
+/**
+ * What a store takes, see `EncryptStorage.usage`.
+ */
+export interface IStorageUsage {
+  // number of entries, expired ones included until they are deleted.
+  entries: number;
+  // size in bytes of the ciphertexts, nonces and other binaries of all the records of the store.
+  bytes: number;
+  // what the whole origin takes, from `navigator.storage` where it's available.
+  origin?: {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+  };
+}
+
+export interface ISetOptions {
+  // time to live in milliseconds.
+  ttl?: number;
+  // expiry time, as a Date or milliseconds since epoch.
+  expiresAt?: Date | number;
+}
+
+export interface ISetBlobOptions extends ISetOptions {
+  // size in bytes of the encrypted chunks. Default: 1 MiB.
+  chunkSize?: number;
+}
+
+/**
+ * What `EncryptStorage.purgeExpired` did.
+ */
+export interface IPurgeResult {
+  // number of expired entries deleted.
+  deleted: number;
+  // identifiers in base64 of the entries that can't be decrypted, left in the store. Reading them throws.
+  failed: string[];
+}
+
+export type StorageEntry<T = unknown> = [key: InputDataType, value: T, options?: ISetOptions];
+
+export type ChangeType = 'set' | 'delete' | 'clear';
+
+/**
+ * A change of the stored entries, made by this instance or, if `remote`, by another instance or tab using the same store.
+ */
+export interface IStorageChange<T = unknown, K extends InputDataType = InputDataType> {
+  type: ChangeType;
+  // undefined for 'clear' changes, and for the 'delete' changes of other instances, whose keys are only known to `watch`
+  key?: K;
+  // the new value of 'set' changes, undefined for the Blobs saved in chunks by other instances or restored from a backup,
+  // read them with `getBlob` or `getStream`
+  value?: T;
+  remote: boolean;
+}
+
+export type ChangeListener<T = unknown> = (change: IStorageChange<T>) => void;
+
+/**
+ * The listeners of the events of `EncryptStorage.on`.
+ */
+export interface IStorageEvents {
+  change: ChangeListener;
+  locked: () => void;
+  unlocked: () => void;
+}
+
+/**
+ * [backend, base key, salt, iterations, data key, lookup key, device]
+ * The data and lookup keys are loaded once from the base key, salt and iterations, and replaced whenever one of them changes.
+ * `device` is set when the base key is the device key of the store, see `rememberDevice`.
+ */
+export type IConfigProperties = [
+  StorageBackend, CryptoKey, BufferSource, number | undefined, Promise<CryptoKey>, Promise<CryptoKey | undefined>, boolean
+];
+
+/**
+ * A stored entry: the encrypted value with everything needed to decrypt it.
+ */
+export interface IEntryRecord {
+  // format version of the record.
+  version: number;
+  algorithm: 'AES-GCM';
+  iv: BufferSource;
+  ciphertext: ArrayBuffer;
+  // original key of the entry, missing on entries written before keys were kept.
+  encryptedKey?: IEncryptedKey;
+  // chunks of the entries saved with `setBlob`, to delete them along with the entry. The encrypted value is authoritative.
+  // `bytes` is the size of the chunk records, so the limits and the usage are measured without reading them.
+  chunks?: { id: string, total: number, bytes: number };
+  // set when the record is encrypted under its own key instead of the data encryption key.
+  subkey?: ISubkeyParams;
+}
+
+/**
+ * A chunk of a Blob saved with `setBlob`, encrypted on its own.
+ * `blob`, `index` and `total` are authenticated along with the data, the chunks can't be moved, dropped or truncated.
+ */
+export interface IChunkRecord {
+  // random identifier of the saved Blob
+  blob: string;
+  index: number;
+  total: number;
+  iv: BufferSource;
+  ciphertext: ArrayBuffer;
+  // set when the chunk is encrypted under its own key instead of the data encryption key.
+  subkey?: ISubkeyParams;
+}
+
+/**
+ * The key of a record is derived with HKDF from the data encryption key material, with the record identifier as info.
+ */
+export interface ISubkeyParams {
+  // random salt of the record, none for the keys derived from the identifier alone.
+  salt?: BufferSource;
+}
+
+/**
+ * The encrypted value of an entry saved with `setBlob`, to find and check its chunks.
+ */
+export interface IChunkManifest {
+  id: string;
+  type: string;
+  size: number;
+  chunkSize: number;
+  total: number;
+}
+
+/**
+ * Original key of an entry, encrypted with the same key as its value.
+ */
+export interface IEncryptedKey {
+  iv: BufferSource;
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * Nonce stored next to an encrypted value before `IEntryRecord` existed,
+ * `ref` points back to the record of the encrypted value.
+ */
+export interface INonceRecord {
+  nonce: BufferSource;
+  ref: ArrayBuffer;
+}
+
+/**
+ * Data encryption key wrapped with the key derived from the base key.
+ */
+export interface IDataKeyRecord {
+  wrappedKey: ArrayBuffer;
+  nonce: BufferSource;
+  // the HMAC key of the record identifiers, wrapped with the same key encryption key
+  wrappedLookupKey?: ArrayBuffer;
+  lookupNonce?: BufferSource;
+}
+
+/**
+ * Parameters of the PBKDF2 derivation of the key encryption key, the salt is kept in its own record.
+ */
+export interface IKdfParams {
+  algorithm: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+}
+
+/**
+ * The record describing the layout of the store, see `storage.migrations`.
+ */
+export interface IStoreMetadata {
+  // the format version of the records.
+  version: number;
+  // missing for the stores created before the metadata record, until opened with their key, and for the stores in device mode.
+  kdf?: IKdfParams;
+  // set when the data encryption key is wrapped with the device key instead of a key derived from a passphrase.
+  device?: boolean;
+}
+
+/**
+ * A constant encrypted with the key encryption key, to tell a wrong key apart from tampered records.
+ */
+export interface IKeyVerifier {
+  iv: BufferSource;
+  ciphertext: ArrayBuffer;
+}
+
+/**
+ * The keys of a store: stores created before data encryption keys existed only have the derived data key.
+ */
+export interface IDataKeys {
+  dataKey: CryptoKey;
+  lookupKey?: CryptoKey;
+}
+
+export interface IRekeyProgress {
+  done: number;
+  total: number;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface IImportBackupOptions extends Omit<IStorageConfig, 'key'> {
+  // 'merge' keeps the entries of the target store that are not in the backup, 'replace' deletes them. Default: 'merge'.
+  mode?: ImportMode;
+}
+
+/**
+ * A portable copy of a store made by `exportBackup`: the key derivation parameters and the encrypted records,
+ * including the wrapped data encryption key. It can only be read with the key of the store.
+ */
+export interface IBackupBundle {
+  format: string;
+  version: number;
+  kdf: {
+    algorithm: 'PBKDF2';
+    hash: 'SHA-256';
+    salt: BufferSource;
+    iterations: number;
+  };
+  // name of the store the records were encrypted in, their additional data is bound to it
+  store: string;
+  records: [ArrayBuffer, unknown][];
+}
+
+export interface IRekeyOptions {
+  // new salt, a new one is generated by default.
+  salt?: BufferSource;
+  // new iteration cycles, the current ones are kept by default.
+  iterations?: number;
+  onProgress?: (progress: IRekeyProgress) => void;
+}
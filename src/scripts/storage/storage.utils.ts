@@ -0,0 +1,452 @@
+import { decode, encode, fromBase64, toBase64 } from "../crypto";
+import { UnsupportedEnvironmentError } from "../errors";
+import { CompressionOption, IChunkManifest } from "./storage.type";
+
+export const COMPRESSION_UNAVAILABLE_ERROR_MESSAGE = `CompressionStream is not available in this environment.`;
+
+/**
+ * Every serialized value starts with these bytes.
+ * `0xE5 0x00` can never start a valid UTF-8 string, so values written before the
+ * serialization format existed (plain UTF-8 strings) are still told apart from tagged ones.
+ */
+const MAGIC = [0xe5, 0x00];
+
+/**
+ * Type tag written right after the magic bytes, restores the original type when reading back.
+ * `Expires` wraps another serialized value, prefixed with its expiry time.
+ * `Compressed` wraps another serialized value, compressed with the format stored right after the tag.
+ * `Chunks` holds the `IChunkManifest` of a Blob saved in chunks, restored by the storage rather than `deserialize`.
+ */
+export enum ValueTag {
+  String = 0x01,
+  Json = 0x02,
+  ArrayBuffer = 0x03,
+  TypedArray = 0x04,
+  Blob = 0x05,
+  Expires = 0x06,
+  Compressed = 0x07,
+  Chunks = 0x08
+}
+
+/**
+ * Formats of the compressed values, the index is stored with the `Compressed` tag.
+ */
+const COMPRESSION_FORMATS: CompressionFormat[] = ['gzip', 'deflate'];
+
+/**
+ * Constructors of the supported views, the index is stored with the `TypedArray` tag.
+ */
+const VIEW_CONSTRUCTORS = [
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  DataView
+];
+
+type ViewConstructor = typeof VIEW_CONSTRUCTORS[number];
+
+/**
+ * Property used to mark the non-JSON values (Date, Map, Set, binaries) nested inside a JSON payload.
+ */
+const JSON_TYPE_PROPERTY = '$es:type';
+
+const toBytes = (data: BufferSource): Uint8Array => {
+  return ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.byteLength, 0));
+
+  parts.reduce((offset, part) => {
+    result.set(part, offset);
+
+    return offset + part.byteLength;
+  }, 0);
+
+  return result;
+};
+
+/**
+ * Compare the bytes of two BufferSource values, e.g. two record keys.
+ *
+ * @returns true if both values hold the same bytes.
+ */
+export function isSameBytes(a: BufferSource, b: BufferSource): boolean {
+  const left = toBytes(a);
+  const right = toBytes(b);
+
+  return left.byteLength === right.byteLength && left.every((byte, index) => byte === right[index]);
+}
+
+const getViewIndex = (view: ArrayBufferView): number => {
+  const index = VIEW_CONSTRUCTORS.findIndex((ctor) => view.constructor === ctor);
+
+  if (index === -1) {
+    throw new TypeError(`Unsupported typed array: ${view.constructor.name}.`);
+  }
+
+  return index;
+};
+
+function jsonReplacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  // `Date.prototype.toJSON` already ran on `value`, the holder still has the original one.
+  const original = this[key];
+
+  if (original instanceof Date) {
+    return { [JSON_TYPE_PROPERTY]: 'Date', value: original.getTime() };
+  }
+
+  if (original instanceof Map) {
+    return { [JSON_TYPE_PROPERTY]: 'Map', value: Array.from(original.entries()) };
+  }
+
+  if (original instanceof Set) {
+    return { [JSON_TYPE_PROPERTY]: 'Set', value: Array.from(original.values()) };
+  }
+
+  if (original instanceof ArrayBuffer) {
+    return { [JSON_TYPE_PROPERTY]: 'ArrayBuffer', value: toBase64(original) };
+  }
+
+  if (ArrayBuffer.isView(original)) {
+    return { [JSON_TYPE_PROPERTY]: 'TypedArray', view: getViewIndex(original), value: toBase64(original) };
+  }
+
+  if (typeof Blob !== 'undefined' && original instanceof Blob) {
+    throw new TypeError('Blob values can not be nested inside other values.');
+  }
+
+  return value;
+}
+
+function jsonReviver(_key: string, value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || !(JSON_TYPE_PROPERTY in value)) {
+    return value;
+  }
+
+  const tagged = value as { [JSON_TYPE_PROPERTY]: string, value: unknown, view?: number };
+
+  switch (tagged[JSON_TYPE_PROPERTY]) {
+    case 'Date':
+      return new Date(tagged.value as string);
+    case 'Map':
+      return new Map(tagged.value as [unknown, unknown][]);
+    case 'Set':
+      return new Set(tagged.value as unknown[]);
+    case 'ArrayBuffer':
+      return fromBase64(tagged.value as string).buffer;
+    case 'TypedArray': {
+      const ctor: ViewConstructor = VIEW_CONSTRUCTORS[tagged.view ?? 1];
+
+      return new ctor(fromBase64(tagged.value as string).buffer);
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Serialize a value to bytes, prefixed with a type tag so `deserialize` can restore the original type.
+ *
+ * Supports strings, numbers, booleans, `null`, plain objects, arrays, `Date`, `Map`, `Set`,
+ * `ArrayBuffer`, typed arrays, `DataView` and `Blob` (top level only).
+ *
+ * @param value The value to be serialized.
+ * @returns A Promise with the serialized bytes.
+ */
+export async function serialize(value: unknown): Promise<Uint8Array> {
+  if (typeof value === 'string') {
+    return concat(new Uint8Array([...MAGIC, ValueTag.String]), toBytes(encode(value)));
+  }
+
+  if (value instanceof ArrayBuffer) {
+    return concat(new Uint8Array([...MAGIC, ValueTag.ArrayBuffer]), toBytes(value));
+  }
+
+  if (ArrayBuffer.isView(value)) {
+    return concat(new Uint8Array([...MAGIC, ValueTag.TypedArray, getViewIndex(value)]), toBytes(value));
+  }
+
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    const type = toBytes(encode(value.type));
+    const typeLength = new Uint8Array(2);
+    new DataView(typeLength.buffer).setUint16(0, type.byteLength);
+
+    return concat(
+      new Uint8Array([...MAGIC, ValueTag.Blob]),
+      typeLength,
+      type,
+      new Uint8Array(await value.arrayBuffer())
+    );
+  }
+
+  const json = JSON.stringify(value, jsonReplacer);
+
+  if (json === undefined) {
+    throw new TypeError(`Unsupported value type: ${typeof value}.`);
+  }
+
+  return concat(new Uint8Array([...MAGIC, ValueTag.Json]), toBytes(encode(json)));
+}
+
+/**
+ * Check if the given bytes were written by `serialize`.
+ *
+ * @returns true if the data starts with the serialization magic bytes.
+ */
+export function isSerialized(data: BufferSource): boolean {
+  const bytes = toBytes(data);
+
+  return bytes.byteLength > MAGIC.length && MAGIC.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Restore a value written by `serialize`.
+ * Untagged data (written before the serialization format existed) is decoded as a UTF-8 string.
+ *
+ * @param data The serialized bytes.
+ * @returns The original value.
+ */
+export function deserialize<T = unknown>(data: BufferSource): T {
+  if (!isSerialized(data)) {
+    return decode(data) as unknown as T;
+  }
+
+  const bytes = toBytes(data);
+  const tag = bytes[MAGIC.length];
+  const payload = bytes.subarray(MAGIC.length + 1);
+
+  switch (tag) {
+    case ValueTag.String:
+      return decode(payload) as unknown as T;
+    case ValueTag.Json:
+      return JSON.parse(decode(payload), jsonReviver);
+    case ValueTag.ArrayBuffer:
+      return payload.slice().buffer as unknown as T;
+    case ValueTag.TypedArray: {
+      const ctor: ViewConstructor = VIEW_CONSTRUCTORS[payload[0]];
+
+      return new ctor(payload.slice(1).buffer) as unknown as T;
+    }
+    case ValueTag.Blob: {
+      const typeLength = new DataView(payload.buffer, payload.byteOffset, 2).getUint16(0);
+      const type = decode(payload.subarray(2, 2 + typeLength));
+
+      return new Blob([payload.subarray(2 + typeLength)], { type }) as unknown as T;
+    }
+    default:
+      throw new TypeError(`Unknown value tag: ${tag}.`);
+  }
+}
+
+/**
+ * Prefix serialized data with an expiry time, so the expiry is encrypted and authenticated along with the value.
+ *
+ * @param data The serialized value.
+ * @param expiresAt The expiry time in milliseconds since epoch.
+ * @returns The serialized value wrapped with its expiry.
+ */
+export function addExpiry(data: Uint8Array, expiresAt: number): Uint8Array {
+  const time = new Uint8Array(8);
+  new DataView(time.buffer).setFloat64(0, expiresAt);
+
+  return concat(new Uint8Array([...MAGIC, ValueTag.Expires]), time, data);
+}
+
+/**
+ * Read the expiry time added by `addExpiry`.
+ *
+ * @param data The decrypted data.
+ * @returns The expiry time (undefined if the value never expires) and the serialized value.
+ */
+export function readExpiry(data: BufferSource): { expiresAt?: number, data: BufferSource } {
+  const bytes = toBytes(data);
+
+  if (!isSerialized(bytes) || bytes[MAGIC.length] !== ValueTag.Expires) {
+    return { data };
+  }
+
+  const offset = MAGIC.length + 1;
+
+  return {
+    expiresAt: new DataView(bytes.buffer, bytes.byteOffset + offset, 8).getFloat64(0),
+    data: bytes.subarray(offset + 8)
+  };
+}
+
+const isCompressionAvailable = (): boolean => {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+};
+
+/**
+ * Runs the bytes through a (de)compression stream, reading while writing so the stream never waits on a full queue.
+ */
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  // the errors are reported by the reader
+  writer.write(data).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value);
+  }
+
+  return concat(...chunks);
+};
+
+/**
+ * Compress serialized data before it's encrypted, tagged so `decompress` knows the format.
+ *
+ * @param data The serialized value.
+ * @param option The format, `'auto'` uses deflate where `CompressionStream` is available and skips compressing elsewhere.
+ * @returns The compressed data, or the given data if compressing doesn't make it smaller.
+ * @throws UnsupportedEnvironmentError if a format is required without `CompressionStream`.
+ */
+export async function compress(data: Uint8Array, option: CompressionOption): Promise<Uint8Array> {
+  if (!isCompressionAvailable()) {
+    if (option === 'auto') {
+      return data;
+    }
+
+    throw new UnsupportedEnvironmentError(COMPRESSION_UNAVAILABLE_ERROR_MESSAGE);
+  }
+
+  const format = option === 'auto' ? 'deflate' : option;
+  const compressed = concat(
+    new Uint8Array([...MAGIC, ValueTag.Compressed, COMPRESSION_FORMATS.indexOf(format)]),
+    await transform(data, new CompressionStream(format))
+  );
+
+  return compressed.byteLength < data.byteLength ? compressed : data;
+}
+
+/**
+ * Restore data compressed by `compress`, other data is returned as is.
+ *
+ * @param data The decrypted data, without its expiry.
+ * @returns A Promise with the serialized value.
+ * @throws UnsupportedEnvironmentError if the data is compressed and there's no `DecompressionStream`.
+ */
+export async function decompress(data: BufferSource): Promise<BufferSource> {
+  const bytes = toBytes(data);
+
+  if (!isSerialized(bytes) || bytes[MAGIC.length] !== ValueTag.Compressed) {
+    return data;
+  }
+
+  if (!isCompressionAvailable()) {
+    throw new UnsupportedEnvironmentError(COMPRESSION_UNAVAILABLE_ERROR_MESSAGE);
+  }
+
+  const format = COMPRESSION_FORMATS[bytes[MAGIC.length + 1]];
+
+  return transform(bytes.subarray(MAGIC.length + 2), new DecompressionStream(format));
+}
+
+/**
+ * Serialize the manifest of a Blob saved in chunks.
+ *
+ * @param manifest Where the chunks are and how they are split.
+ * @returns The serialized manifest.
+ */
+export function serializeChunkManifest(manifest: IChunkManifest): Uint8Array {
+  return concat(new Uint8Array([...MAGIC, ValueTag.Chunks]), toBytes(encode(JSON.stringify(manifest))));
+}
+
+/**
+ * Read the manifest written by `serializeChunkManifest`.
+ *
+ * @param data The decrypted data, without its expiry.
+ * @returns The manifest, undefined if the data is a serialized value.
+ */
+export function readChunkManifest(data: BufferSource): IChunkManifest | undefined {
+  const bytes = toBytes(data);
+
+  if (!isSerialized(bytes) || bytes[MAGIC.length] !== ValueTag.Chunks) {
+    return undefined;
+  }
+
+  return JSON.parse(decode(bytes.subarray(MAGIC.length + 1)));
+}
+
+/**
+ * Size in bytes of the binaries of a stored record, e.g. its ciphertexts and nonces.
+ *
+ * @param record The record, e.g. an `IEntryRecord` or the salt.
+ * @returns The size, 0 for a record without binaries.
+ */
+export function getRecordSize(record: unknown): number {
+  if (record instanceof ArrayBuffer || ArrayBuffer.isView(record)) {
+    return record.byteLength;
+  }
+
+  if (typeof record === 'object' && record !== null) {
+    return Object.values(record).reduce((size: number, value) => size + getRecordSize(value), 0);
+  }
+
+  return 0;
+}
+
+/**
+ * Encode a stored record as JSON for backends that only store strings, binaries are base64 encoded.
+ *
+ * @param record The record, e.g. an `IEntryRecord` or the salt.
+ * @returns The JSON string.
+ */
+export function stringifyRecord(record: unknown): string {
+  return JSON.stringify(record, jsonReplacer);
+}
+
+/**
+ * Restore a record encoded by `stringifyRecord`.
+ *
+ * @param json The JSON string.
+ * @returns The record with its binaries.
+ */
+export function parseRecord<T = unknown>(json: string): T {
+  return JSON.parse(json, jsonReviver);
+}
+
+/**
+ * Part of an entry record a ciphertext holds.
+ */
+export type RecordPart = 'value' | 'key';
+
+/**
+ * Additional authenticated data of a record ciphertext: binds it to its record key, store, part and format version,
+ * so a ciphertext copied over another record fails authentication.
+ *
+ * @param recordKey The hashed key the record is stored at.
+ * @param storeName The name of the store inside the backend.
+ * @param part The value or the original key of the entry.
+ * @param version The format version of the record.
+ * @returns The additional data.
+ */
+export function getAdditionalData(recordKey: BufferSource, storeName: string, part: RecordPart, version: number): BufferSource {
+  return encode(`encrypt-storage:v${version}:${part}:${storeName}:${toBase64(recordKey)}`);
+}
+
+/**
+ * Additional authenticated data of a Blob chunk: binds it to its store, Blob, position and the number of chunks,
+ * so chunks can't be reordered, swapped between Blobs, dropped or truncated.
+ *
+ * @param storeName The name of the store inside the backend.
+ * @param blob The random identifier of the Blob.
+ * @param index The position of the chunk.
+ * @param total The number of chunks of the Blob.
+ * @returns The additional data.
+ */
+export function getChunkAdditionalData(storeName: string, blob: string, index: number, total: number): BufferSource {
+  return encode(`encrypt-storage:chunk:${storeName}:${blob}:${index}/${total}`);
+}